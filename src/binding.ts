@@ -0,0 +1,54 @@
+// 查找子页面对应的 iframe 元素。document.querySelectorAll 看不到 shadow DOM（含 Web Components）内的元素，
+// 这里逐层进入 open shadow root；closed shadow root 内的 iframe 只能由 attach() 直接传入
+
+type SearchRoot = Document | ShadowRoot;
+
+// 文档本身及其中所有（含嵌套的）open shadow root
+export function collectRoots(root: SearchRoot = document): SearchRoot[] {
+    const roots: SearchRoot[] = [root];
+    root.querySelectorAll('*').forEach((el) => {
+        if (el.shadowRoot) roots.push(...collectRoots(el.shadowRoot));
+    });
+    return roots;
+}
+
+// 新插入的子树中（含嵌套的）open shadow root
+export function shadowRootsWithin(node: Node): ShadowRoot[] {
+    if (!(node instanceof Element)) return [];
+    return [node, ...Array.from(node.querySelectorAll('*'))]
+        .filter((el) => el.shadowRoot)
+        .flatMap((el) => collectRoots(el.shadowRoot as ShadowRoot) as ShadowRoot[]);
+}
+
+// 新插入的子树中的 iframe，含 roots（子树内的 shadow root）中的
+export function framesWithin(node: Node, roots: ShadowRoot[] = shadowRootsWithin(node)): HTMLIFrameElement[] {
+    if (!(node instanceof Element)) return [];
+    const frames = node instanceof HTMLIFrameElement ? [node] : [];
+    [node, ...roots].forEach((root) => frames.push(...Array.from(root.querySelectorAll('iframe'))));
+    return frames;
+}
+
+export function findFrameByWindow(win: WindowProxy, roots: SearchRoot[] = collectRoots()): HTMLIFrameElement | null {
+    for (const root of roots) {
+        const found = Array.from(root.querySelectorAll('iframe')).find((iframe) => iframe.contentWindow === win);
+        if (found) return found;
+    }
+    return null;
+}
+
+export function queryFrame(selector: string, roots: SearchRoot[] = collectRoots()): HTMLIFrameElement | null {
+    for (const root of roots) {
+        const found = root.querySelector(selector);
+        if (found instanceof HTMLIFrameElement) return found;
+    }
+    return null;
+}
+
+// 跨域的 WindowProxy 也允许读取 window 属性
+export function isWindow(value: unknown): value is WindowProxy {
+    try {
+        return !!value && typeof value === 'object' && (value as Window).window === value;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,199 @@
+// 消息 data 字段的编解码器，codec id 随消息一起传递，接收方据此解码
+export interface Codec {
+    id: string;
+    encode(data: unknown): unknown;
+    decode(data: unknown): unknown;
+}
+
+// 直接交给 postMessage 的结构化克隆
+export const structuredCodec: Codec = {
+    id: 'structured',
+    encode: (data) => data,
+    decode: (data) => data,
+};
+
+export const jsonCodec: Codec = {
+    id: 'json',
+    encode: (data) => (data === undefined ? null : JSON.stringify(data)),
+    decode: (data) => (typeof data === 'string' ? JSON.parse(data) : null),
+};
+
+// UTF-8 safe base64 with type marker（旧版本的默认编码）
+export const base64JsonCodec: Codec = {
+    id: 'base64-json',
+    encode(payload) {
+        if (payload === null || payload === undefined) return null;
+        let marker: 's' | 'o';
+        let content: string;
+        if (typeof payload === 'string') {
+            marker = 's';
+            content = payload;
+        } else {
+            marker = 'o';
+            content = JSON.stringify(payload);
+        }
+        const utf8 = new TextEncoder().encode(content);
+        let binary = '';
+        for (let i = 0; i < utf8.length; i++) binary += String.fromCharCode(utf8[i]);
+        return `${marker}:${btoa(binary)}`;
+    },
+    decode(encoded) {
+        if (typeof encoded !== 'string') return null;
+        const idx = encoded.indexOf(':');
+        if (idx === -1) return null;
+        const marker = encoded.slice(0, idx);
+        const binary = atob(encoded.slice(idx + 1));
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        const decodedStr = new TextDecoder().decode(bytes);
+        if (marker === 'o') {
+            try {
+                return JSON.parse(decodedStr);
+            } catch {
+                return decodedStr;
+            }
+        }
+        return decodedStr;
+    },
+};
+
+type TypedArray =
+    | Int8Array | Uint8Array | Uint8ClampedArray | Int16Array | Uint16Array
+    | Int32Array | Uint32Array | Float32Array | Float64Array;
+
+const TYPED_ARRAYS: Record<string, new (buffer: ArrayBuffer) => TypedArray> = {
+    Int8Array, Uint8Array, Uint8ClampedArray, Int16Array, Uint16Array, Int32Array, Uint32Array, Float32Array, Float64Array,
+};
+
+const TAG = '$t';
+
+function bytesOf(buffer: ArrayBuffer): number[] {
+    return Array.from(new Uint8Array(buffer));
+}
+
+function toTagged(value: unknown): unknown {
+    if (value === undefined) return { [TAG]: 'undefined' };
+    if (typeof value === 'bigint') return { [TAG]: 'BigInt', v: value.toString() };
+    if (typeof value === 'number') {
+        if (Number.isNaN(value) || !Number.isFinite(value) || Object.is(value, -0)) {
+            return { [TAG]: 'Number', v: String(Object.is(value, -0) ? '-0' : value) };
+        }
+        return value;
+    }
+    if (value === null || typeof value !== 'object') return value;
+
+    if (value instanceof Date) return { [TAG]: 'Date', v: value.toISOString() };
+    if (value instanceof RegExp) return { [TAG]: 'RegExp', v: [value.source, value.flags] };
+    if (value instanceof Map) return { [TAG]: 'Map', v: Array.from(value, ([k, v]) => [toTagged(k), toTagged(v)]) };
+    if (value instanceof Set) return { [TAG]: 'Set', v: Array.from(value, toTagged) };
+    if (value instanceof ArrayBuffer) return { [TAG]: 'ArrayBuffer', v: bytesOf(value) };
+    if (ArrayBuffer.isView(value)) {
+        const name = value.constructor.name;
+        if (TYPED_ARRAYS[name]) {
+            const copy = value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength) as ArrayBuffer;
+            return { [TAG]: name, v: bytesOf(copy) };
+        }
+    }
+    if (Array.isArray(value)) return value.map(toTagged);
+
+    const out: Record<string, unknown> = {};
+    Object.keys(value).forEach((key) => {
+        out[key] = toTagged((value as Record<string, unknown>)[key]);
+    });
+    // 普通对象自身带有 $t 字段时整体包一层，避免与类型标记混淆
+    return TAG in out ? { [TAG]: 'Object', v: out } : out;
+}
+
+function isByteList(value: unknown): value is number[] {
+    return Array.isArray(value) && value.every((n) => typeof n === 'number');
+}
+
+function fromTagged(value: unknown): unknown {
+    if (value === null || typeof value !== 'object') return value;
+    if (Array.isArray(value)) return value.map(fromTagged);
+
+    const obj = value as Record<string, unknown>;
+    const tag = obj[TAG];
+    if (typeof tag === 'string') {
+        const { v } = obj;
+        // 结构不符合标记的值按普通对象处理
+        switch (tag) {
+            case 'undefined': return undefined;
+            case 'BigInt':
+                if (typeof v === 'string') return (globalThis as unknown as { BigInt: (v: string) => unknown }).BigInt(v);
+                break;
+            case 'Number':
+                if (typeof v === 'string') return v === '-0' ? -0 : Number(v);
+                break;
+            case 'Date':
+                if (typeof v === 'string') return new Date(v);
+                break;
+            case 'RegExp':
+                if (Array.isArray(v) && typeof v[0] === 'string' && typeof v[1] === 'string') return new RegExp(v[0], v[1]);
+                break;
+            case 'Map':
+                if (Array.isArray(v) && v.every((entry) => Array.isArray(entry))) {
+                    return new Map((v as unknown[][]).map(([k, val]) => [fromTagged(k), fromTagged(val)]));
+                }
+                break;
+            case 'Set':
+                if (Array.isArray(v)) return new Set(v.map(fromTagged));
+                break;
+            case 'ArrayBuffer':
+                if (isByteList(v)) return new Uint8Array(v).buffer;
+                break;
+            case 'Object':
+                if (v && typeof v === 'object' && !Array.isArray(v)) {
+                    const inner = v as Record<string, unknown>;
+                    const out: Record<string, unknown> = {};
+                    Object.keys(inner).forEach((key) => {
+                        out[key] = fromTagged(inner[key]);
+                    });
+                    return out;
+                }
+                break;
+            default:
+                if (TYPED_ARRAYS[tag] && isByteList(v)) return new TYPED_ARRAYS[tag](new Uint8Array(v).buffer);
+        }
+    }
+
+    const out: Record<string, unknown> = {};
+    Object.keys(obj).forEach((key) => {
+        out[key] = fromTagged(obj[key]);
+    });
+    return out;
+}
+
+// 扩展 JSON：保留 Date、Map、Set、BigInt、undefined、RegExp、ArrayBuffer 与类型化数组
+export const extendedJsonCodec: Codec = {
+    id: 'extended-json',
+    encode: (data) => JSON.stringify(toTagged(data)),
+    decode: (data) => (typeof data === 'string' ? fromTagged(JSON.parse(data)) : null),
+};
+
+const codecRegistry: Map<string, Codec> = new Map(
+    [structuredCodec, jsonCodec, base64JsonCodec, extendedJsonCodec].map((codec) => [codec.id, codec]),
+);
+
+export const DEFAULT_CODEC_ID = structuredCodec.id;
+
+export function registerCodec(codec: Codec) {
+    if (!codec || typeof codec.id !== 'string' || typeof codec.encode !== 'function' || typeof codec.decode !== 'function') {
+        throw new Error('Invalid codec: id, encode and decode are required');
+    }
+    codecRegistry.set(codec.id, codec);
+}
+
+export function getCodec(id: string): Codec | undefined {
+    return codecRegistry.get(id);
+}
+
+export function listCodecs(): string[] {
+    return Array.from(codecRegistry.keys());
+}
+
+// 旧版本消息不携带 codec：带 encoded 标记或 s:/o: 前缀的字符串按 base64-json 解码，其余原样返回
+export function resolveLegacyCodec(data: unknown, encoded?: boolean): Codec {
+    if (encoded || (typeof data === 'string' && /^[so]:/.test(data))) return base64JsonCodec;
+    return structuredCodec;
+}
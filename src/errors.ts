@@ -0,0 +1,155 @@
+import type { DeliveryErrorCode, IframeMessage, SerializedError, SharedStateErrorCode } from './type';
+
+export class RequestTimeoutError extends Error {
+    public method: string;
+    public targetId: string;
+    public timeout: number;
+
+    constructor(method: string, targetId: string, timeout: number) {
+        super(`Request "${method}" to ${targetId} timed out after ${timeout}ms`);
+        this.name = 'RequestTimeoutError';
+        this.method = method;
+        this.targetId = targetId;
+        this.timeout = timeout;
+    }
+}
+
+export class HandshakeError extends Error {
+    public reason: string;
+
+    constructor(reason: string) {
+        super(`Handshake rejected: ${reason}`);
+        this.name = 'HandshakeError';
+        this.reason = reason;
+    }
+}
+
+export class StreamCancelledError extends Error {
+    public reason: string;
+
+    constructor(reason: string) {
+        super(`Stream cancelled: ${reason}`);
+        this.name = 'StreamCancelledError';
+        this.reason = reason;
+    }
+}
+
+export class PermissionDeniedError extends Error {
+    public code: string;
+
+    constructor(code: string, reason: string) {
+        super(reason);
+        this.name = 'PermissionDeniedError';
+        this.code = code;
+    }
+}
+
+// 可靠投递失败：timeout 为超过期限未收到 ack，unsupported 为多播等无法确认的目标
+export class DeliveryError extends Error {
+    public code: DeliveryErrorCode;
+    public key?: string;
+    public targetId?: string;
+
+    constructor(code: DeliveryErrorCode, message: IframeMessage | undefined, reason: string) {
+        super(reason);
+        this.name = 'DeliveryError';
+        this.code = code;
+        this.key = message?.key;
+        this.targetId = message?.targetId;
+    }
+}
+
+export class SharedStateError extends Error {
+    public code: SharedStateErrorCode;
+    public state: string;
+
+    constructor(code: SharedStateErrorCode, state: string, reason: string) {
+        super(reason);
+        this.name = 'SharedStateError';
+        this.code = code;
+        this.state = state;
+    }
+}
+
+// 入站数据未通过 validators 校验，target 为 event 名或 'method(params)' / 'method(result)'
+export class ValidationError extends Error {
+    public target: string;
+    public issues: string[];
+
+    constructor(target: string, issues: string[]) {
+        super(`Invalid payload for "${target}": ${issues.join('; ')}`);
+        this.name = 'ValidationError';
+        this.target = target;
+        this.issues = issues;
+    }
+}
+
+// 帧或注册请求的来源不在白名单内
+export class OriginRejectedError extends Error {
+    public origin: string;
+    public sourceId?: string;
+
+    constructor(origin: string, sourceId?: string) {
+        super(`Origin "${origin}" is not allowed${sourceId ? ` for ${sourceId}` : ''}`);
+        this.name = 'OriginRejectedError';
+        this.origin = origin;
+        this.sourceId = sourceId;
+    }
+}
+
+export class TargetNotFoundError extends Error {
+    public targetId: string;
+    public key?: string;
+
+    constructor(targetId: string, key?: string) {
+        super(`Target page ${targetId} not found or not bound`);
+        this.name = 'TargetNotFoundError';
+        this.targetId = targetId;
+        this.key = key;
+    }
+}
+
+// 入站帧的 codec 未知或 data 无法解码，cause 为 codec 抛出的原始错误
+export class DecodeError extends Error {
+    public codec: string;
+    public key?: string;
+    public cause?: unknown;
+
+    constructor(codec: string, key: string | undefined, reason: string, cause?: unknown) {
+        super(`Failed to decode ${key ? `message ${key}` : 'payload'} with codec "${codec}": ${reason}`);
+        this.name = 'DecodeError';
+        this.codec = codec;
+        this.key = key;
+        this.cause = cause;
+    }
+}
+
+// 已有页面以同一 id 注册且绑定的窗口仍然有效
+export class DuplicateRegistrationError extends Error {
+    public id: string;
+
+    constructor(id: string) {
+        super(`Page ${id} is already registered`);
+        this.name = 'DuplicateRegistrationError';
+        this.id = id;
+    }
+}
+
+// 远端 handler 抛出的错误，保留原始 name/message/stack
+export class RemoteError extends Error {
+    public remoteName: string;
+
+    constructor(error: SerializedError) {
+        super(error.message);
+        this.name = 'RemoteError';
+        this.remoteName = error.name;
+        if (error.stack) this.stack = error.stack;
+    }
+}
+
+export function serializeError(err: unknown): SerializedError {
+    if (err instanceof Error) {
+        return { name: err.name, message: err.message, stack: err.stack };
+    }
+    return { name: 'Error', message: String(err) };
+}
@@ -0,0 +1,9 @@
+// 不允许作为路径或属性名出现的键：防止原型污染，以及通过路径访问到 Object / Function 构造器
+export const FORBIDDEN_KEYS = ['__proto__', 'prototype', 'constructor'];
+
+// 只接受普通对象（对象字面量、JSON 解码或结构化克隆的结果），排除数组、Date、Map 与类实例
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (value === null || typeof value !== 'object') return false;
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
@@ -0,0 +1,60 @@
+import type { HandshakeReply, HandshakeRequest } from './type';
+import { isPlainObject } from './guard';
+
+// 当前协议版本及可兼容的最低版本
+export const PROTOCOL_VERSION = 1;
+export const MIN_PROTOCOL_VERSION = 1;
+
+export function createSessionToken(): string {
+    const bytes = new Uint8Array(16);
+    if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+        crypto.getRandomValues(bytes);
+    } else {
+        for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+    }
+    return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function toStringList(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+// 兼容未携带握手字段的旧版子页面：视为协议版本 1、base64-json 编码
+export function parseHandshakeRequest(data: unknown): HandshakeRequest {
+    const raw = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+    const protocolVersion = typeof raw.protocolVersion === 'number' ? raw.protocolVersion : 1;
+    const minProtocolVersion = typeof raw.minProtocolVersion === 'number' ? raw.minProtocolVersion : protocolVersion;
+    const codecs = toStringList(raw.codecs);
+    return {
+        protocolVersion,
+        minProtocolVersion,
+        codecs: codecs.length ? codecs : ['base64-json'],
+        capabilities: toStringList(raw.capabilities),
+        groups: toStringList(raw.groups),
+        ...(typeof raw.publicKey === 'string' ? { publicKey: raw.publicKey } : {}),
+        ...(raw.ports === true ? { ports: true } : {}),
+        ...(isPlainObject(raw.metadata) ? { metadata: raw.metadata } : {}),
+    };
+}
+
+export function isSupportedVersion(version: number): boolean {
+    return version >= MIN_PROTOCOL_VERSION && version <= PROTOCOL_VERSION;
+}
+
+// 取双方版本区间的最高公共版本，以及子页面偏好顺序中第一个双方都支持的编码
+export function negotiateHandshake(request: HandshakeRequest, capabilities: string[], codecs: string[]): HandshakeReply {
+    const version = Math.min(PROTOCOL_VERSION, request.protocolVersion);
+    if (version < Math.max(MIN_PROTOCOL_VERSION, request.minProtocolVersion)) {
+        return {
+            accepted: false,
+            reason: `Incompatible protocol version: peer supports ${request.minProtocolVersion}-${request.protocolVersion}, host supports ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}`,
+        };
+    }
+
+    const codec = request.codecs.find((c) => codecs.includes(c));
+    if (!codec) {
+        return { accepted: false, reason: `No common codec: peer supports ${request.codecs.join(', ')}` };
+    }
+
+    return { accepted: true, version, codec, sessionToken: createSessionToken(), capabilities: [...capabilities] };
+}
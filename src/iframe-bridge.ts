@@ -4,30 +4,298 @@ import {
     MessageEventData,
     IframeMessage,
     MessageType,
+    LifecycleEvent,
+    MessageListener,
+    MessageTarget,
+    OutgoingMessage,
+    BroadcastOptions,
+    HandshakeReply,
+    HandshakeRequest,
+    HandshakeResult,
+    PeerStatus,
+    PeerInfo,
+    PeerRemovalReason,
+    AttachTarget,
+    AttachOptions,
+    RequestHandler,
+    RequestOptions,
+    ResponsePayload,
+    SendOptions,
+    StreamOptions,
+    OutgoingStream,
+    OriginMatcher,
+    SecurityViolation,
+    ReplayMetrics,
+    PolicyDenial,
+    OverflowPolicy,
+    ThrottleReason,
+    BridgeSchema,
+    UntypedSchema,
+    EventName,
+    EventData,
+    MethodName,
+    MethodParams,
+    MethodResult,
+    LooseName,
+    SystemChannel,
+    TypedMessage,
+    Validator,
+    SharedState,
+    SharedStateOptions,
+    StateSnapshot,
+    Remote,
+    InspectorOptions,
+    TrafficDirection,
+    TrafficEntry,
+    TrafficRecording,
+    ReplayOptions,
+    Middleware,
+    MiddlewareDirection,
 } from './type';
+import { collectRoots, findFrameByWindow, framesWithin, isWindow, queryFrame, shadowRootsWithin } from './binding';
+import { Codec, DEFAULT_CODEC_ID, base64JsonCodec, getCodec, listCodecs, registerCodec, resolveLegacyCodec, structuredCodec } from './codec';
+import {
+    DecodeError,
+    DeliveryError,
+    DuplicateRegistrationError,
+    HandshakeError,
+    OriginRejectedError,
+    PermissionDeniedError,
+    RemoteError,
+    RequestTimeoutError,
+    StreamCancelledError,
+    TargetNotFoundError,
+    ValidationError,
+    serializeError,
+} from './errors';
+import {
+    MIN_PROTOCOL_VERSION,
+    PROTOCOL_VERSION,
+    isSupportedVersion,
+    negotiateHandshake,
+    parseHandshakeRequest,
+} from './handshake';
+import { StreamManager, StreamSource } from './stream';
+import { isOriginAllowed } from './origin';
+import { KeyLookupResult, SecurityLayer, isSealedType } from './security';
+import { ReplayGuard } from './replay';
+import { LinkQueue, PolicyEnforcer, TokenBucket, estimateSize } from './policy';
+import { Outbox } from './outbox';
+import { ValidationOutcome, runValidator } from './schema';
+import { ProposalReply, SharedStateManager, StateProposal } from './shared-state';
+import { RemoteCall, RemoteObjects } from './remote';
+import { BridgeLogger, LogFields } from './logger';
+import { TrafficInspector, parseRecording } from './inspector';
+import { MiddlewarePipeline } from './middleware';
 
 const DEFAULT_MAIN_ID = 'main';
+const DEFAULT_REQUEST_TIMEOUT = 10000;
+const DEFAULT_MAX_HOPS = 16;
+const PARENT_HOP = Symbol('parent');
+const BROADCAST_TARGET = '*';
+const DEFAULT_RETRY_DELAY = 500;
+const DEFAULT_MAX_RETRY_DELAY = 8000;
+const MAX_BUFFERED_MESSAGES = 100;
+const DOM_OBSERVE_OPTIONS: MutationObserverInit = { childList: true, subtree: true };
+const DEFAULT_HEARTBEAT_INTERVAL = 5000;
+const DEFAULT_MAX_MISSED_BEATS = 3;
+const DEFAULT_REPLAY_WINDOW = 1000;
+const DEFAULT_MAX_MESSAGE_AGE = 5 * 60 * 1000;
+const DEFAULT_CLOCK_SKEW = 30 * 1000;
+const DEFAULT_MAX_QUEUE_LENGTH = 1000;
+// 同一页面同一原因的 peer:throttled 事件最短间隔，避免洪泛时事件本身成为负担
+const THROTTLE_EVENT_INTERVAL = 1000;
+const DEFAULT_DELIVERY_RETRY_DELAY = 1000;
+const DEFAULT_DELIVERY_MAX_RETRY_DELAY = 10000;
+const DEFAULT_DELIVERY_DEADLINE = 30000;
+const OUTBOX_STORAGE_PREFIX = 'iframe-bridge:outbox:';
+// replay() 默认回放的帧类型：握手、确认、心跳等链路帧依赖当时的会话，回放没有意义
+const DEFAULT_REPLAY_TYPES: MessageType[] = ['message', 'request', 'stream', 'state', 'error'];
+
+const WILDCARD_CHANNEL = '*';
+// 主页面内置的公钥查询方法，供其他页面获取非直接相连页面的公钥
+const KEY_LOOKUP_METHOD = '__iframe-bridge:lookupKey';
+// 主页面内置的共享状态方法：子页面提议修改、获取最新快照
+const STATE_PROPOSE_METHOD = '__iframe-bridge:proposeState';
+const STATE_SYNC_METHOD = '__iframe-bridge:syncState';
+// expose / remote 使用的内置方法：调用公开对象、调用回调引用、释放回调引用
+const REMOTE_CALL_METHOD = '__iframe-bridge:call';
+const REMOTE_CALLBACK_METHOD = '__iframe-bridge:callback';
+const REMOTE_RELEASE_METHOD = '__iframe-bridge:release';
+// 子页面请求上级页面为其与另一个子页面建立直连端口
+const PORT_BROKER_METHOD = '__iframe-bridge:connectPeer';
+// 子页面向上级页面查询其注册表
+const PEER_LIST_METHOD = '__iframe-bridge:listPeers';
+
+interface ListenerEntry {
+    handler: MessageListener;
+    once: boolean;
+}
+
+interface RegisteredIframe {
+    id: string;
+    iframe: HTMLIFrameElement | null;
+    window: WindowProxy | null; // 注册请求来自的窗口，弹出窗口没有对应的 iframe 元素
+    origin: string;
+    groups: string[];
+    sessionToken: string;
+    version: number;
+    codec: string;
+    capabilities: string[];
+    metadata: Record<string, unknown>;
+    connected: boolean;
+    registeredAt: number;
+    onLoad: (() => void) | null;
+    lastSeen: number;
+    latency: number | null;
+    missedBeats: number;
+    pendingPing: string | null;
+    port: MessagePort | null; // 握手时建立的专用端口
+    portReady: boolean; // 已从端口收到子页面的帧，此后发往它的帧改走端口
+}
+
+// 'port' 帧的 data：open 为子页面启用端口的确认，direct / close 为上级页面分配或撤销的直连端口
+interface PortFrame {
+    op: 'open' | 'direct' | 'close';
+    peer?: string;
+}
+
+function isMessagePort(value: unknown): value is MessagePort {
+    return typeof MessagePort !== 'undefined' && value instanceof MessagePort;
+}
+
+// attach() 预先声明的页面：注册请求须来自该窗口与来源
+interface Attachment {
+    id: string;
+    origin: string;
+    target: AttachTarget;
+    element: HTMLIFrameElement | null; // 目标为选择器时，元素出现后才有值
+    resolve: (peer: PeerInfo) => void;
+    reject: (reason: unknown) => void;
+}
+
+interface PendingRequest {
+    method: string;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+    timer: ReturnType<typeof setTimeout> | null;
+    startedAt: number;
+}
+
+// 载荷可为 undefined 时参数可省略
+type PayloadArgs<T> = undefined extends T ? [data?: T] : [data: T];
+type RequestArgs<T> = undefined extends T ? [params?: T, options?: RequestOptions] : [params: T, options?: RequestOptions];
 
-export class IframeBridge {
+/**
+ * S 为可选的消息契约（见 BridgeSchema），声明后 send / on / request / handle 的名称与数据类型均受检查。
+ */
+export class IframeBridge<S extends BridgeSchema = UntypedSchema> {
     private defaultMainPageId = DEFAULT_MAIN_ID;
     public iframeId: string;
     private origin: string;
     private role?: 'main' | 'iframe';
-    private originWhitelist?: string[]; // undefined => 不校验
-    private messageCallback: ((msg: IframeMessage) => void) | null = null;
+    private originWhitelist?: OriginMatcher[]; // undefined => 不校验
+    private strict: boolean;
+    private onSecurityViolation?: (violation: SecurityViolation) => void;
+    private groups: string[];
+    private capabilities: string[];
+    private metadata: Record<string, unknown>;
+    private codec: Codec;
+    private logger: BridgeLogger;
+    private listeners: Map<string, Set<ListenerEntry>> = new Map();
     private messageCallbackReady: Promise<void>;
     private onMessageCallbackReady!: () => void;
 
+    // request / response
+    private requestTimeout: number;
+    private requestHandlers: Map<string, RequestHandler> = new Map();
+    private pendingRequests: Map<string, PendingRequest> = new Map();
+
+    // runtime validation
+    private validators: NonNullable<IframeBridgeOptions['validators']>;
+
+    // streaming
+    private streams: StreamManager;
+
+    // shared state
+    private sharedStates: SharedStateManager;
+
+    // remote objects
+    private remoteObjects: RemoteObjects;
+
+    // message security
+    private security: SecurityLayer | null = null;
+    private outboundChain: Promise<void> = Promise.resolve();
+
+    // replay protection
+    private replayGuard: ReplayGuard;
+
+    // access control
+    private policy: PolicyEnforcer | null = null;
+
+    // inbound limits
+    private rateLimit: { count: number; interval: number } | null;
+    private rateBuckets: Map<string, TokenBucket> = new Map();
+    private maxQueueLength: number;
+    private overflow: OverflowPolicy;
+    private maxPayloadSize: number | null;
+    private throttleReports: Map<string, { last: number; dropped: number }> = new Map();
+
+    // reliable delivery
+    private outbox!: Outbox;
+    private deliveryDeadline: number;
+
     // queues and states
-    private registeredIframe: Record<
-        string,
-        { id: string; iframe: HTMLIFrameElement | null; origin: string }
-    > = {};
-    private messageQueue: IframeMessage[] = [];
-    private registerQueue: MessageEventData[] = [];
+    private registeredIframe: Record<string, RegisteredIframe> = {};
+    private messageQueue: LinkQueue<IframeMessage> = new LinkQueue();
+    private registerQueue: LinkQueue<MessageEventData> = new LinkQueue();
     private isHandlingRegister = false;
     private isHandlingMessage = false;
 
+    // handshake
+    public ready: Promise<HandshakeResult>;
+    private resolveReady!: (result: HandshakeResult) => void;
+    private rejectReady!: (reason: unknown) => void;
+    private registerKey: string | null = null;
+    private sessionToken: string | null = null;
+
+    // reconnection
+    private retryDelay: number;
+    private maxRetryDelay: number;
+    private maxRetries: number;
+    private registerAttempts = 0;
+    private registerTimer: ReturnType<typeof setTimeout> | null = null;
+    private hasConnected = false;
+    private outboundBuffer: IframeMessage[] = []; // 子页面握手完成前的待发消息
+    private pendingDeliveries: Record<string, IframeMessage[]> = {}; // 断开期间发往子页面的消息
+
+    // heartbeat
+    private heartbeatInterval: number | null = null; // null => 未开启
+    private maxMissedBeats: number;
+    private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+    // middleware
+    private middleware = new MiddlewarePipeline();
+    private outboundMiddlewareChain: Promise<void> = Promise.resolve();
+    private inboundMiddlewareChain: Promise<void> = Promise.resolve();
+
+    // traffic inspector
+    private inspector: TrafficInspector | null = null;
+
+    // dedicated ports
+    private portsEnabled: boolean;
+    private parentPort: MessagePort | null = null;
+    private directPorts: Map<string, MessagePort> = new Map(); // 对端页面 id => 直连端口
+    private directLinks: Map<string, Set<string>> = new Map(); // 上级页面记录已分配的直连：页面 id => 对端 id
+
+    // routing
+    private hostEnabled: boolean;
+    private maxHops: number;
+    private parentId: string | null = null;
+    private routes: Record<string, string> = {}; // 后代页面 id => 下一跳（直接子页面 id）
+    private attachments: Map<string, Attachment> = new Map();
+    private domObserver: MutationObserver | null = null; // 绑定、延迟绑定与 iframe 离开文档时的清理
+
     // lifecycle
     private _destroyed = false;
     private _autoDestroy = false;
@@ -35,12 +303,94 @@ export class IframeBridge {
     // bound handlers (non-private for add/remove)
     private _handleWindowMessage: (e: MessageEvent) => void;
     private _handleWindowUnload: () => void;
+    private _handlePageHide: () => void;
 
     constructor(options: IframeBridgeOptions = {}) {
-        const { iframeId, origin, originWhitelist, type, lifecycle } = options;
+        const {
+            iframeId, origin, originWhitelist, type, lifecycle, requestTimeout, host, maxHops, groups, capabilities, metadata, reconnect,
+            heartbeat, codec, strict, onSecurityViolation, security, replay, policy, limits, delivery, validators, ports,
+            logger, logLevel, debug, onError, inspector,
+        } = options;
+        this.logger = new BridgeLogger({ logger, level: logLevel, debug, onError }, () => this.iframeId);
         this.origin = origin || window.location.origin;
         this.role = type;
+        this.strict = !!strict;
+        this.onSecurityViolation = onSecurityViolation;
+        this.hostEnabled = !!host;
+        this.groups = Array.isArray(groups) ? [...groups] : [];
+        this.capabilities = Array.isArray(capabilities) ? [...capabilities] : [];
+        this.metadata = metadata && typeof metadata === 'object' ? { ...metadata } : {};
+        this.codec = this.resolveCodec(codec);
+        this.retryDelay = reconnect?.retryDelay ?? DEFAULT_RETRY_DELAY;
+        this.maxRetryDelay = reconnect?.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+        this.maxRetries = reconnect?.maxRetries ?? Infinity;
+        if (heartbeat) {
+            this.heartbeatInterval = heartbeat.interval ?? DEFAULT_HEARTBEAT_INTERVAL;
+        }
+        this.maxMissedBeats = heartbeat?.maxMissed ?? DEFAULT_MAX_MISSED_BEATS;
+        this.maxHops = typeof maxHops === 'number' && maxHops > 0 ? maxHops : DEFAULT_MAX_HOPS;
         this._autoDestroy = !!lifecycle?.autoDestroy;
+        this.requestTimeout = typeof requestTimeout === 'number' ? requestTimeout : DEFAULT_REQUEST_TIMEOUT;
+        // 回调与释放依附于已放行的远程调用；调用公开对象本身仍受 methods 约束
+        const internalMethods = [
+            KEY_LOOKUP_METHOD, STATE_PROPOSE_METHOD, STATE_SYNC_METHOD, REMOTE_CALLBACK_METHOD, REMOTE_RELEASE_METHOD, PORT_BROKER_METHOD,
+            PEER_LIST_METHOD,
+        ];
+        if (policy) this.policy = new PolicyEnforcer(policy, internalMethods);
+        this.validators = validators ?? {};
+        this.portsEnabled = ports !== false && typeof MessageChannel !== 'undefined';
+        this.rateLimit = limits?.rate ?? null;
+        this.maxQueueLength = limits?.maxQueueLength ?? DEFAULT_MAX_QUEUE_LENGTH;
+        this.overflow = limits?.overflow ?? 'drop-newest';
+        this.maxPayloadSize = limits?.maxPayloadSize ?? null;
+        this.deliveryDeadline = delivery?.deadline ?? DEFAULT_DELIVERY_DEADLINE;
+        this.replayGuard = new ReplayGuard(
+            replay?.size ?? DEFAULT_REPLAY_WINDOW,
+            replay?.maxAge ?? DEFAULT_MAX_MESSAGE_AGE,
+            replay?.clockSkew ?? DEFAULT_CLOCK_SKEW,
+        );
+        this.sharedStates = new SharedStateManager({
+            selfId: () => this.iframeId,
+            ownerId: () => this.defaultMainPageId,
+            isOwner: () => this.isMainPage(),
+            isConnected: () => !!this.sessionToken,
+            broadcast: (frame) => {
+                void this.sendMessage({ targetId: BROADCAST_TARGET, data: frame }, 'state');
+            },
+            propose: (proposal) => this.invoke<ProposalReply>(this.defaultMainPageId, STATE_PROPOSE_METHOD, proposal),
+            sync: (name) => this.invoke<StateSnapshot | null>(this.defaultMainPageId, STATE_SYNC_METHOD, name),
+            log: this.logger.scope('state'),
+        });
+        this.requestHandlers.set(STATE_PROPOSE_METHOD, (proposal, message) => (
+            this.sharedStates.handleProposal(proposal as StateProposal, message.sourceId as string)
+        ));
+        this.requestHandlers.set(STATE_SYNC_METHOD, (name) => this.sharedStates.getSnapshot(name as string));
+        this.remoteObjects = new RemoteObjects({
+            call: (peerId, call) => this.invoke(peerId, REMOTE_CALL_METHOD, call),
+            callback: (peerId, id, args) => this.invoke(peerId, REMOTE_CALLBACK_METHOD, { id, args }),
+            release: (peerId, ids) => {
+                this.invoke(peerId, REMOTE_RELEASE_METHOD, ids).catch(() => undefined);
+            },
+        });
+        this.requestHandlers.set(REMOTE_CALL_METHOD, (call, message) => this.remoteObjects.handleCall(call as RemoteCall, message.sourceId as string));
+        this.requestHandlers.set(REMOTE_CALLBACK_METHOD, (params, message) => {
+            const { id, args } = (params || {}) as { id?: string; args?: unknown[] };
+            return this.remoteObjects.handleCallback(id as string, args, message.sourceId as string);
+        });
+        this.requestHandlers.set(REMOTE_RELEASE_METHOD, (ids, message) => this.remoteObjects.handleRelease(ids, message.sourceId as string));
+        this.requestHandlers.set(PORT_BROKER_METHOD, (peerId, message) => this.brokerPort(message, peerId as string));
+        this.requestHandlers.set(PEER_LIST_METHOD, (_params, message) => this.listPeersFor(message.sourceId as string));
+        this.streams = new StreamManager({
+            send: (targetId, frame, { streamId, event, transfer }) => {
+                const built = this.createMessage({ targetId, data: frame, streamId, event, transfer }, 'stream');
+                this.sendMessage(built, 'stream');
+                return built.key as string;
+            },
+            emit: (message) => this.emitMessage(message),
+        });
+        if (security) {
+            this.security = new SecurityLayer(security.mode || 'sign', (id) => this.lookupPublicKey(id));
+        }
 
         // 临时设置 iframeId（若后续判定为 main 会被覆盖为 DEFAULT_MAIN_ID）
         this.iframeId = iframeId || DEFAULT_MAIN_ID;
@@ -49,13 +399,30 @@ export class IframeBridge {
         // 那么强制把实例 id 设为默认主 id，保证与路由判断保持一致。
         if (this.isMainPage()) {
             if (this.iframeId !== DEFAULT_MAIN_ID) {
-                console.warn('IframeBridge: running as main page — iframeId is forced to "main" for routing consistency.');
+                this.logger.warn('lifecycle', 'Running as main page — iframeId is forced to "main" for routing consistency');
             }
             this.iframeId = DEFAULT_MAIN_ID;
         }
 
+        this.outbox = new Outbox({
+            retryDelay: delivery?.retryDelay ?? DEFAULT_DELIVERY_RETRY_DELAY,
+            maxRetryDelay: delivery?.maxRetryDelay ?? DEFAULT_DELIVERY_MAX_RETRY_DELAY,
+            storageKey: delivery?.persist ? `${OUTBOX_STORAGE_PREFIX}${this.iframeId}` : null,
+        }, {
+            post: (message) => this.dispatchOutbound({ ...message }),
+            fail: (message, error) => {
+                this.logger.warn('delivery', `Delivery of ${message.key} failed (${error.code})`, this.frameFields(message, message.targetId));
+                this.emitPeerEvent('delivery:failed', message.targetId || '', { key: message.key, code: error.code });
+            },
+            log: this.logger.scope('delivery'),
+        });
+
+        // 在握手之前开启，以便记录注册过程
+        if (inspector) this.inspect(inspector === true ? {} : inspector);
+
         if (Array.isArray(originWhitelist) && originWhitelist.length > 0) {
-            this.originWhitelist = [this.origin, ...originWhitelist];
+            // origin 为 '*' 时只是 postMessage 的 targetOrigin，不能作为白名单条目
+            this.originWhitelist = [this.origin === '*' ? window.location.origin : this.origin, ...originWhitelist];
         } else {
             this.originWhitelist = undefined;
         }
@@ -63,48 +430,126 @@ export class IframeBridge {
         this.messageCallbackReady = new Promise((resolve) => {
             this.onMessageCallbackReady = resolve;
         });
+        this.ready = new Promise<HandshakeResult>((resolve, reject) => {
+            this.resolveReady = resolve;
+            this.rejectReady = reject;
+        });
+        // 避免调用方未监听 ready 时产生未处理的 rejection
+        this.ready.catch(() => undefined);
 
         // bind handlers
         this._handleWindowMessage = this._handleWindowMessageImpl.bind(this);
         this._handleWindowUnload = this._handleWindowUnloadImpl.bind(this);
+        this._handlePageHide = this._handlePageHideImpl.bind(this);
 
         // register listeners
         window.addEventListener('message', this._handleWindowMessage, false);
+        window.addEventListener('pagehide', this._handlePageHide, false);
         if (this._autoDestroy) {
             window.addEventListener('beforeunload', this._handleWindowUnload, false);
             window.addEventListener('unload', this._handleWindowUnload, false);
         }
 
-        this.init();
+        if (this.security) {
+            // 握手请求需携带公钥，密钥对生成后再注册
+            this.security.ready.then(() => {
+                if (!this._destroyed) this.init();
+            }, (err) => {
+                this.logger.report('security', err, 'Failed to initialize message security');
+                this.rejectReady(err);
+            });
+            this.requestHandlers.set(KEY_LOOKUP_METHOD, (id) => this.lookupPublicKey(id as string));
+        } else {
+            this.init();
+        }
+        this.startHeartbeat();
+        this.outbox.restore();
+    }
+
+    private resolveCodec(codec: string | Codec | undefined): Codec {
+        if (codec && typeof codec === 'object') {
+            registerCodec(codec);
+            return codec;
+        }
+        const resolved = getCodec(codec || DEFAULT_CODEC_ID);
+        if (!resolved) throw new Error(`IframeBridge: unknown codec "${codec}"`);
+        return resolved;
     }
 
     private init() {
         if (this.isMainPage()) {
-            const registerMsg = this.createMessage({ sourceId: this.defaultMainPageId }, 'register');
+            const registerMsg = this.createMessage({ sourceId: this.defaultMainPageId, data: this.createHandshakeRequest() }, 'register');
+            this.registerKey = registerMsg.key as string;
             // fire-and-forget: ensure main registers itself
             void this.registerIframe(registerMsg);
         } else {
-            const registerMsg = this.createMessage({ targetId: this.defaultMainPageId }, 'register');
-            this.sendMessage(registerMsg);
+            this.sendRegister();
         }
     }
 
+    // 子页面发送注册请求，未收到应答前按指数退避重试
+    private sendRegister() {
+        if (this._destroyed) return;
+        const registerMsg = this.createMessage({ targetId: this.defaultMainPageId, data: this.createHandshakeRequest() }, 'register');
+        this.registerKey = registerMsg.key as string;
+        this.sendMessage(registerMsg);
+
+        if (this.registerAttempts >= this.maxRetries) return;
+        const delay = Math.min(this.retryDelay * 2 ** this.registerAttempts, this.maxRetryDelay);
+        this.registerAttempts += 1;
+        this.registerTimer = setTimeout(() => this.sendRegister(), delay);
+    }
+
+    private stopRegisterRetry() {
+        if (this.registerTimer) clearTimeout(this.registerTimer);
+        this.registerTimer = null;
+        this.registerAttempts = 0;
+    }
+
+    private createHandshakeRequest(): HandshakeRequest {
+        return {
+            protocolVersion: PROTOCOL_VERSION,
+            minProtocolVersion: MIN_PROTOCOL_VERSION,
+            // 首选自身 codec，其余为本页面可解码的备选
+            codecs: [this.codec.id, ...listCodecs().filter((id) => id !== this.codec.id)],
+            capabilities: this.capabilities,
+            groups: this.groups,
+            ...(this.security ? { publicKey: this.security.publicKey } : {}),
+            ...(this.portsEnabled ? { ports: true } : {}),
+            ...(Object.keys(this.metadata).length ? { metadata: this.metadata } : {}),
+        };
+    }
+
     public isMainPage(): boolean {
         if (this.role === 'main') return true;
         if (this.role === 'iframe') return false;
         return window.top === window.self;
     }
 
+    // 主页面，或显式开启 host 的中间层 iframe，可接受子页面注册并转发消息
+    public isHost(): boolean {
+        return this.isMainPage() || this.hostEnabled;
+    }
+
     private _handleWindowMessageImpl(e: MessageEvent) {
         if (this._destroyed) return;
         if (!e?.data || !e.data.type) return;
-        if (this.isMainPage()) {
+        // 自身发出的消息（同窗口回显）不再处理，避免重复转发
+        if (e.data.sourceId === this.iframeId) return;
+        if (this.isHost()) {
             this.receiveMessage(e);
         } else {
-            void this.handleMessage(e.data);
+            void this.handleMessage(e.data, e);
         }
     }
 
+    // 子页面卸载（刷新、跳转）时通知上级页面，使其立即将本页面标记为断开
+    private _handlePageHideImpl() {
+        if (this._destroyed || this.isMainPage() || !this.sessionToken) return;
+        const notice = this.createMessage({ targetId: this.parentId || this.defaultMainPageId }, 'disconnect');
+        this.postToParent(notice);
+    }
+
     private _handleWindowUnloadImpl() {
         try {
             this.destroy();
@@ -117,88 +562,105 @@ export class IframeBridge {
         return `msg_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
     }
 
-    // UTF-8 safe base64 with type marker
+    private frameFields(message: IframeMessage, peerId = message.sourceId): LogFields {
+        return { peerId, key: message.key, type: message.type };
+    }
+
+    private tap(direction: TrafficDirection, transport: TrafficEntry['transport'], message: IframeMessage) {
+        if (this.inspector && message && message.type) this.inspector.record(direction, transport, message);
+    }
+
+    // 解码失败时返回原值且不上报，供流量记录使用
+    private peekData(message: IframeMessage): unknown {
+        const codec = message.codec ? getCodec(message.codec) : resolveLegacyCodec(message.data, message.encoded);
+        try {
+            return codec ? codec.decode(message.data) : message.data;
+        } catch {
+            return message.data;
+        }
+    }
+
+    // 调试模式下记录每一帧的收发；估算 size 有开销，只在开启 transport 命名空间时计算
+    private traceFrame(direction: 'in' | 'out', message: IframeMessage, peerId?: string) {
+        if (!this.logger.enabled('debug', 'transport')) return;
+        this.logger.debug('transport', `${direction === 'in' ? 'Received' : 'Sent'} ${message.type} ${message.key}`, {
+            ...this.frameFields(message, peerId),
+            direction,
+            size: estimateSize(message.data),
+            ...(direction === 'in' && typeof message.timestamp === 'number' ? { latency: Date.now() - message.timestamp } : {}),
+        });
+    }
+
+    // 兼容旧 API：base64-json 编解码
     public enCodeMessage(payload: unknown): string | null {
         try {
-            if (payload === null || payload === undefined) return null;
-            let marker: 's' | 'o';
-            let content: string;
-            if (typeof payload === 'string') {
-                marker = 's';
-                content = payload;
-            } else {
-                marker = 'o';
-                content = JSON.stringify(payload);
-            }
-            const utf8 = new TextEncoder().encode(content);
-            let binary = '';
-            for (let i = 0; i < utf8.length; i++) binary += String.fromCharCode(utf8[i]);
-            const base64 = btoa(binary);
-            return `${marker}:${base64}`;
+            return base64JsonCodec.encode(payload) as string | null;
         } catch (err) {
-            // eslint-disable-next-line no-console
-            console.error('enCodeMessage error:', err);
+            this.logger.report('codec', err, 'enCodeMessage failed');
             return null;
         }
     }
 
     public deCodeMessage(encoded: unknown): unknown | null {
         try {
-            if (typeof encoded !== 'string') return null;
-            const idx = encoded.indexOf(':');
-            if (idx === -1) return null;
-            const marker = encoded.slice(0, idx);
-            const base64 = encoded.slice(idx + 1);
-            const binary = atob(base64);
-            const bytes = new Uint8Array(binary.length);
-            for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
-            const decodedStr = new TextDecoder().decode(bytes);
-            if (marker === 's') return decodedStr;
-            if (marker === 'o') {
-                try {
-                    return JSON.parse(decodedStr);
-                } catch {
-                    return decodedStr;
-                }
-            }
-            return decodedStr;
+            return base64JsonCodec.decode(encoded);
         } catch (err) {
-            // eslint-disable-next-line no-console
-            console.error('deCodeMessage error:', err);
+            this.logger.report('codec', new DecodeError(base64JsonCodec.id, undefined, err instanceof Error ? err.message : String(err), err));
             return null;
         }
     }
 
-    // 创建消息对象
-    private createMessage(message: Partial<IframeMessage> = {}, type: MessageType = 'message'): IframeMessage {
-        // 原始数据（可能为已编码字符串或原始对象/字符串）
-        const raw = message.data === undefined ? null : message.data;
+    // 按消息携带的 codec id 解码 data；旧版本消息按 encoded 标记推断
+    private decodeData(message: IframeMessage): unknown {
+        const codec = message.codec ? getCodec(message.codec) : resolveLegacyCodec(message.data, message.encoded);
+        if (!codec) {
+            this.logger.report('codec', new DecodeError(String(message.codec), message.key, 'unknown codec'), undefined, this.frameFields(message));
+            return null;
+        }
+        try {
+            return codec.decode(message.data);
+        } catch (err) {
+            const reason = err instanceof Error ? err.message : String(err);
+            this.logger.report('codec', new DecodeError(codec.id, message.key, reason, err), undefined, this.frameFields(message));
+            return null;
+        }
+    }
 
-        // encoded 优先取调用方显式提供的值
-        let encodedFlag: boolean | undefined = message.encoded;
+    // 发往直接子页面的帧使用与其协商的 codec，其余使用本页面的 codec
+    private codecFor(targetId?: string): Codec {
+        const record = targetId && targetId !== this.iframeId ? this.registeredIframe[targetId] : undefined;
+        return (record && getCodec(record.codec)) || this.codec;
+    }
 
-        // 若调用方未显式传 encoded，则尝试通过格式推断
-        if (encodedFlag === undefined) {
-            encodedFlag = this.enCodeMessage(raw) ? true : false;
+    // 本页面发起的多播按每个接收方协商的 codec 重新编码
+    private encodeFor(message: IframeMessage, recipient: string): IframeMessage {
+        const codec = this.codecFor(recipient);
+        if (message.sourceId !== this.iframeId || !message.codec || message.codec === codec.id || message.codec === structuredCodec.id) {
+            return message;
         }
+        return this.encodeDraft({ ...message, data: this.decodeData(message) }, codec.id);
+    }
 
-        let finalData: unknown = raw;
+    // 创建消息对象
+    private createMessage(message: Partial<IframeMessage> = {}, type: MessageType = 'message'): IframeMessage {
+        const raw = message.data === undefined ? null : message.data;
 
-        // 如果当前判断为未编码（false 或 undefined），则对原始数据进行编码并标记 encoded=true
-        if (!encodedFlag && raw !== null && raw !== undefined) {
-            const enc = this.enCodeMessage(raw);
-            if (enc !== null) {
-                finalData = enc;
-                encodedFlag = true;
-            } else {
-                // 若编码失败，保留原始数据并保持 encoded=false（或根据需求抛错/警告）
-                // console.warn('encodeInternal failed, message will be sent unencoded');
+        // 调用方显式给出 codec 时视为 data 已按该 codec 编码；带 transfer 时只能使用结构化克隆
+        let codecId = message.codec ?? (message.transfer?.length ? structuredCodec.id : undefined);
+        let finalData: unknown = raw;
+        if (!codecId) {
+            // 握手应答在协商之前发出，使用本页面的 codec
+            const codec = type === 'register' ? this.codec : this.codecFor(message.targetId);
+            try {
+                finalData = codec.encode(raw);
+                codecId = codec.id;
+            } catch (err) {
+                this.logger.warn('codec', `Codec "${codec.id}" failed to encode, falling back to structured clone`, { error: err });
                 finalData = raw;
-                encodedFlag = false;
+                codecId = structuredCodec.id;
             }
         }
-        const path = this.addMessagePath(message.path)
-        console.log(path)
+        const path = this.addMessagePath(message.path);
         return {
             type,
             key: this.getMessageKey(),
@@ -207,8 +669,17 @@ export class IframeBridge {
             origin: this.origin,
             path,
             data: finalData,
-            encoded: encodedFlag,
+            codec: codecId,
             timestamp: Date.now(),
+            ...(message.event !== undefined ? { event: message.event } : {}),
+            ...(message.method !== undefined ? { method: message.method } : {}),
+            ...(message.replyTo !== undefined ? { replyTo: message.replyTo } : {}),
+            ...(message.route !== undefined ? { route: message.route } : {}),
+            ...(message.targets !== undefined ? { targets: message.targets } : {}),
+            ...(message.exclude !== undefined ? { exclude: message.exclude } : {}),
+            ...(message.transfer?.length ? { transfer: message.transfer } : {}),
+            ...(message.streamId !== undefined ? { streamId: message.streamId } : {}),
+            ...(message.reliable ? { reliable: true } : {}),
         };
     }
 
@@ -218,45 +689,184 @@ export class IframeBridge {
         return arr;
     }
 
-    private receiveMessage(event: MessageEvent) {
-        const { type } = (event.data || {}) as IframeMessage;
+    // viaPort 为 true 表示帧来自专用端口，端口只交给了握手的对端，无需再校验 event.source / origin
+    private receiveMessage(event: MessageEvent, viaPort = false) {
+        const { type, replyTo } = (event.data || {}) as IframeMessage;
+        this.tap('in', viaPort ? 'port' : 'window', event.data as IframeMessage);
+        // 除注册请求外，所有入站帧都必须携带该链路的会话令牌
+        if (!(type === 'register' && !replyTo) && !this.verifySession(event.data as IframeMessage)) return;
+        if (!viaPort && !this.verifySource(event)) return;
+        if (!viaPort && this.expectsPort(event.data as IframeMessage)) return;
+        const link = this.linkOf(event.data as IframeMessage, event.source);
+        if (!this.admitFrame(event.data as IframeMessage, link)) return;
+        if (type === 'state' && link) {
+            // 共享状态只由主页面向下发布，来自后代页面的 state 帧既不处理也不转发
+            this.logger.warn('state', `Dropped state frame ${(event.data as IframeMessage).key} from descendant ${link}`, this.frameFields(event.data as IframeMessage, link));
+            return;
+        }
+        this.touchPeer(event.data as IframeMessage);
         switch (type) {
             case 'register':
-                this.registerQueue.push({ source: event.source as WindowProxy | null, ...(event.data as IframeMessage) } as MessageEventData);
-                void this.registerIframe();
+                // 带 replyTo 的是上级页面的注册应答，按普通消息处理
+                if (replyTo) {
+                    if (this.enqueue(this.messageQueue, event.data as IframeMessage, link)) {
+                        void Promise.resolve().then(() => this.handleMessage());
+                    }
+                    break;
+                }
+                // source / eventOrigin 取自浏览器，放在展开之后，避免被帧内同名字段覆盖
+                if (this.enqueue(this.registerQueue, {
+                    ...(event.data as IframeMessage),
+                    source: event.source as WindowProxy | null,
+                    eventOrigin: event.origin,
+                } as MessageEventData, link)) {
+                    void this.registerIframe();
+                }
                 break;
             case 'message':
-                this.messageQueue.push(event.data as IframeMessage);
-                // 当收到 message push 到 this.messageQueue 后，立即确保异步触发处理
-                this.messageQueue.push(event.data);
-                void Promise.resolve().then(() => this.handleMessage()); // 确保在 microtask 执行
-                //void this.handleMessage();
+            case 'request':
+            case 'response':
+            case 'ping':
+            case 'pong':
+            case 'stream':
+            case 'error':
+            case 'ack':
+            case 'state':
+            case 'port':
+                if (this.enqueue(this.messageQueue, event.data as IframeMessage, link)) {
+                    void Promise.resolve().then(() => this.handleMessage()); // 确保在 microtask 执行
+                }
+                break;
+            case 'route':
+                this.handleRouteAnnouncement(event.data as IframeMessage);
+                break;
+            case 'disconnect': {
+                const { sourceId } = event.data as IframeMessage;
+                if (sourceId && this.registeredIframe[sourceId]) {
+                    this.markDisconnected(sourceId, 'unload');
+                } else {
+                    this.handleUnregistered({ ...(event.data as IframeMessage), data: this.decodeData(event.data as IframeMessage) });
+                }
                 break;
+            }
             default:
-                // eslint-disable-next-line no-console
-                console.warn('Unknown message type received:', type);
+                this.logger.warn('transport', `Unknown message type "${type}"`, this.frameFields(event.data as IframeMessage));
+        }
+    }
+
+    /**
+     * 入站帧来自的直接子页面：注册请求按实际发来的窗口查找（帧内的 sourceId 可以伪造，未注册的窗口返回 null），
+     * 其余为 path 的最后一跳；来自上级页面时返回 null
+     */
+    private linkOf(message: IframeMessage, source?: MessageEventSource | null): string | null {
+        if (message.type === 'register' && !message.replyTo) {
+            if (!source) return null;
+            const record = Object.values(this.registeredIframe).find((peer) => peer.id !== this.iframeId && this.peerWindow(peer) === source);
+            return record ? record.id : null;
+        }
+        const path = Array.isArray(message.path) ? message.path : [];
+        const lastHop = path[path.length - 1];
+        return lastHop && lastHop !== this.iframeId && this.registeredIframe[lastHop] ? lastHop : null;
+    }
+
+    // 在解码之前按链路检查帧大小与速率
+    private admitFrame(message: IframeMessage, peerId: string | null): boolean {
+        if (!peerId) return true;
+        if (this.maxPayloadSize !== null && estimateSize(message.data) > this.maxPayloadSize) {
+            this.reportThrottle(peerId, 'payload-too-large');
+            this.failDroppedStreams([message], 'payload-too-large');
+            return false;
+        }
+        if (this.rateLimit) {
+            let bucket = this.rateBuckets.get(peerId);
+            if (!bucket) {
+                bucket = new TokenBucket(this.rateLimit.count, this.rateLimit.interval);
+                this.rateBuckets.set(peerId, bucket);
+            }
+            if (!bucket.take()) {
+                this.reportThrottle(peerId, 'rate-limited');
+                this.failDroppedStreams([message], 'rate-limited');
+                return false;
+            }
+        }
+        return true;
+    }
+
+    // 每条链路单独计算排队上限，按 overflow 策略处理溢出，返回新帧是否入队。来自上级页面或未注册窗口的帧合并计数
+    private enqueue<T extends IframeMessage>(queue: LinkQueue<T>, message: T, peerId: string | null): boolean {
+        const link = peerId || '';
+        if (queue.count(link) < this.maxQueueLength) {
+            queue.push(link, message);
+            return true;
+        }
+        if (peerId) this.reportThrottle(peerId, 'queue-overflow');
+        if (this.overflow === 'drop-oldest') {
+            const dropped = queue.dropOldest(link);
+            if (dropped) this.failDroppedStreams([dropped], 'queue-overflow');
+            queue.push(link, message);
+            return true;
+        }
+        if (this.overflow === 'disconnect' && peerId) {
+            // 丢弃该页面已排队的帧并断开，其会话令牌随之失效
+            this.failDroppedStreams([...queue.dropLink(peerId), message], 'queue-overflow');
+            this.markDisconnected(peerId, 'throttled');
+            return false;
         }
+        this.failDroppedStreams([message], 'queue-overflow');
+        return false;
+    }
+
+    // 流的分片或确认被丢弃后无法继续：以 error 帧通知两端结束该流，避免发送方的 done 与接收方的读取永远挂起
+    private failDroppedStreams(dropped: IframeMessage[], code: ThrottleReason) {
+        const failed = new Set<string>();
+        dropped.forEach((message) => {
+            if (message.type !== 'stream' || !message.sourceId || this.isMulticast(message)) return;
+            const streamId = message.streamId || (message.key as string);
+            if (failed.has(streamId)) return;
+            failed.add(streamId);
+            const denial: PolicyDenial = { code, reason: `Stream ${streamId} lost a frame (${code})`, key: message.key, targetId: message.targetId };
+            [message.sourceId, message.targetId].forEach((peerId) => {
+                if (!peerId) return;
+                if (peerId === this.iframeId) this.streams.reject(streamId, new PermissionDeniedError(code, denial.reason));
+                else this.sendMessage({ targetId: peerId, data: denial, replyTo: streamId }, 'error');
+            });
+        });
+    }
+
+    private reportThrottle(peerId: string, reason: ThrottleReason) {
+        const id = `${peerId}:${reason}`;
+        const now = Date.now();
+        const report = this.throttleReports.get(id) || { last: 0, dropped: 0 };
+        report.dropped += 1;
+        this.throttleReports.set(id, report);
+        if (now - report.last < THROTTLE_EVENT_INTERVAL) return;
+        this.logger.warn('limits', `Throttled ${peerId} (${reason}), dropped ${report.dropped} frame(s)`, { peerId });
+        this.emitPeerEvent('peer:throttled', peerId, { reason, dropped: report.dropped });
+        report.last = now;
+        report.dropped = 0;
     }
 
     private async registerIframe(message?: MessageEventData) {
-        if (!this.isMainPage()) {
-            // eslint-disable-next-line no-console
-            console.error('Only main page can handle iframe registration');
+        if (!this.isHost()) {
+            this.logger.error('handshake', 'Only main page or host bridge can handle iframe registration');
             return;
         }
         if (this.isHandlingRegister) return;
         this.isHandlingRegister = true;
 
-        const queue = message ? [message] : this.registerQueue.splice(0);
+        let queue = message ? [message] : this.registerQueue.drain();
 
-        for (const msg of queue) {
-            try {
-                // eslint-disable-next-line no-await-in-loop
-                await this.handleRegister(msg);
-            } catch (err) {
-                // eslint-disable-next-line no-console
-                console.error('Iframe registration failed:', err);
+        // 处理期间新入队的注册请求也需要继续处理
+        while (queue.length) {
+            for (const msg of queue) {
+                try {
+                    // eslint-disable-next-line no-await-in-loop
+                    await this.handleRegister(msg);
+                } catch (err) {
+                    this.logger.report('handshake', err, 'Iframe registration failed', { peerId: msg.sourceId, key: msg.key, type: 'register' });
+                }
             }
+            queue = this.registerQueue.drain();
         }
 
         this.isHandlingRegister = false;
@@ -266,137 +876,1772 @@ export class IframeBridge {
         return new Promise(async (resolve, reject) => {
             if (!message) return reject(new Error('Missing registration message'));
 
-            const { source, sourceId, origin, type } = message;
+            // 应答需携带本页面公钥：密钥对生成前到达的注册等待其就绪
+            if (this.security) {
+                try {
+                    await this.security.ready;
+                } catch {
+                    this.replyRegister(message, { accepted: false, reason: 'Message security is unavailable on host' });
+                    return reject(new HandshakeError('Message security is unavailable on host'));
+                }
+                if (this._destroyed) return reject(new Error('IframeBridge has been destroyed'));
+            }
+
+            const { source, sourceId, eventOrigin } = message;
+            const isSelf = sourceId === this.iframeId;
+            // 以浏览器提供的 event.origin 为准；仅非严格模式下无法获取时回退到发送方自填的 origin
+            const origin = isSelf ? this.origin : (eventOrigin || (this.strict ? '' : message.origin));
 
-            if (!origin || !sourceId) return reject(new Error('Invalid registration payload'));
+            if (!sourceId) return reject(new Error('Invalid registration payload'));
+            if (!origin || (this.strict && !isSelf && !source)) {
+                this.reportViolation({ reason: 'unverifiable', origin: eventOrigin || '', sourceId, type: 'register', key: message.key, dropped: true });
+                this.replyRegister(message, { accepted: false, reason: 'Registration origin cannot be verified' });
+                return reject(new Error(`Registration of ${sourceId} cannot be verified.`));
+            }
 
-            if (Array.isArray(this.originWhitelist) && !this.originWhitelist.includes(origin)) {
-                return reject(new Error(`Origin ${origin} is not in the whitelist.`));
+            if (!isSelf && Array.isArray(this.originWhitelist) && !isOriginAllowed(origin, this.originWhitelist)) {
+                this.reportViolation({ reason: 'origin-not-allowed', origin, sourceId, type: 'register', key: message.key, dropped: true });
+                this.replyRegister(message, { accepted: false, reason: `Origin ${origin} is not allowed` });
+                return reject(new OriginRejectedError(origin, sourceId));
             }
 
-            if (!this.registeredIframe[sourceId]) {
-                const bound = this.bindingIframe(source as WindowProxy | null);
-                this.registeredIframe[sourceId] = { id: sourceId, iframe: bound, origin };
-                // eslint-disable-next-line no-console
-                console.log(`Page ${sourceId} registered.`);
-                const successMsg = this.createMessage({ data: 'success', targetId: sourceId }, type);
-                // 等待 onMessage callback 准备（若未注册，Promise 会在 onMessage 中被 resolve）
-                try {
-                    await Promise.race([this.messageCallbackReady, Promise.resolve()]);
-                } catch { }
-                if (sourceId === this.iframeId) {
-                    this.messageCallback?.(successMsg);
+            // attach() 预先声明的页面只接受来自声明的窗口与来源的注册
+            const attachment = isSelf ? undefined : this.attachments.get(sourceId);
+            if (attachment) this.refreshAttachment(attachment, collectRoots());
+            const mismatch = attachment ? this.checkAttachment(attachment, source, origin) : null;
+            if (attachment && mismatch) {
+                this.reportViolation({ reason: mismatch, origin, expectedOrigin: attachment.origin, sourceId, type: 'register', key: message.key, dropped: true });
+                const reason = `Registration of ${sourceId} does not match the attached ${mismatch === 'origin-mismatch' ? 'origin' : 'window'}`;
+                this.replyRegister(message, { accepted: false, reason });
+                return reject(mismatch === 'origin-mismatch' ? new OriginRejectedError(origin, sourceId) : new HandshakeError(reason));
+            }
+
+            // 同一 id 的重新注册：来自同一窗口（刷新/跳转）或原绑定已失效时替换，否则视为重复注册
+            const existing = this.registeredIframe[sourceId];
+            if (existing && !this.canReplaceBinding(existing, source)) {
+                const error = new DuplicateRegistrationError(sourceId);
+                this.replyRegister(message, { accepted: false, reason: error.message });
+                return reject(error);
+            }
+
+            const request = parseHandshakeRequest(this.decodeData(message));
+            let reply = negotiateHandshake(request, this.capabilities, listCodecs());
+            if (reply.accepted && this.security) {
+                if (request.publicKey) {
+                    reply = { ...reply, publicKey: this.security.publicKey, rootPublicKey: this.security.getPeerKey(this.defaultMainPageId) || this.security.publicKey };
                 } else {
-                    this.sendMessage(successMsg, type);
+                    reply = { accepted: false, reason: 'Message security is required by host' };
                 }
-                resolve(true);
+            }
+            if (reply.accepted && this.isMainPage() && sourceId !== this.iframeId) {
+                // 新注册（含重连）的页面随应答拿到全部共享状态的最新快照
+                reply = { ...reply, states: this.sharedStates.snapshot() };
+            }
+            // 双方都支持时为该链路建立专用端口，port2 随握手应答转移给子页面
+            const channel = reply.accepted && !isSelf && source && request.ports && this.portsEnabled ? new MessageChannel() : null;
+            if (reply.accepted && channel) reply = { ...reply, port: true };
+            if (!reply.accepted) {
+                this.replyRegister(message, reply);
+                if (sourceId === this.iframeId) this.rejectReady(new HandshakeError(reply.reason));
+                return reject(new HandshakeError(reply.reason));
+            }
+
+            if (existing) {
+                this.unbindLoadListener(existing);
+                this.closePeerPort(existing);
+            }
+            if (this.security && request.publicKey) this.security.setPeerKey(sourceId, request.publicKey);
+            const bound = attachment?.element || (source ? findFrameByWindow(source) : null);
+            const record: RegisteredIframe = {
+                id: sourceId,
+                iframe: bound,
+                window: source || null,
+                origin,
+                groups: request.groups,
+                sessionToken: reply.sessionToken,
+                version: reply.version,
+                codec: reply.codec,
+                capabilities: request.capabilities,
+                metadata: request.metadata || {},
+                connected: true,
+                registeredAt: Date.now(),
+                onLoad: null,
+                lastSeen: Date.now(),
+                latency: null,
+                missedBeats: 0,
+                pendingPing: null,
+                port: channel ? channel.port1 : null,
+                portReady: false,
+            };
+            this.registeredIframe[sourceId] = record;
+            if (record.port) record.port.onmessage = (e: MessageEvent) => this.receivePortMessage(record, e);
+            this.bindLoadListener(record);
+            if (!isSelf) {
+                this.observeDom();
+                // 尚未找到 iframe 的页面需要在各 shadow root 内等待元素出现
+                if (record.iframe) this.watchFrame(record.iframe);
+                else if (record.window) this.watchRoots(collectRoots());
+            }
+            this.logger.info('handshake', `Page ${sourceId} ${existing ? 're-registered' : 'registered'}`, { peerId: sourceId, key: message.key });
+
+            if (sourceId === this.iframeId) {
+                const { accepted: _accepted, ...result } = reply;
+                this.resolveReady(result);
+                const successMsg = this.createMessage({ data: reply, targetId: sourceId, replyTo: message.key }, 'register');
+                // 等待首个监听器注册（Promise 会在 on() 中被 resolve），不阻塞注册队列
+                const decoded = { ...successMsg, data: this.decodeData(successMsg) };
+                void this.messageCallbackReady.then(() => this.emitMessage(decoded));
             } else {
-                reject(new Error(`Iframe ${sourceId} already registered.`));
+                this.replyRegister(message, reply, channel?.port2);
+                // 中间层需将新的后代页面通告给上级，构建跨层级路由表
+                if (!this.isMainPage()) this.announceRoutes([sourceId]);
+                if (!existing) this.emitPeerEvent('peer:added', sourceId, { ...this.toPeerInfo(record) });
+                this.emitPeerEvent(existing ? 'reconnected' : 'connected', sourceId);
+                attachment?.resolve(this.toPeerInfo(record));
+                this.flushPendingDeliveries(sourceId);
             }
+            resolve(true);
         });
     }
 
-    private bindingIframe(sourceWindow: WindowProxy | null): HTMLIFrameElement | null {
-        if (!sourceWindow) return null;
-        const iframes = document.querySelectorAll('iframe');
-        return Array.from(iframes).find((iframe) => iframe.contentWindow === sourceWindow) || null;
-    }
-
-    private async handleMessage(message?: IframeMessage) {
-        if (!this.isMainPage()) {
-            console.log('Iframe handling message:', message);
-            if (!message) return;
-            message.path = this.addMessagePath(message.path || []);
-            console.log('Iframe added path:', message.path);
-            const decoded = { ...message, data: this.deCodeMessage(message.data) };
-            console.log('Iframe received message:', decoded);
-            await Promise.resolve(); // 保证回调在异步时序上能被测试捕捉
-            this.messageCallback?.(decoded);
+    // 握手应答优先直接回复发起注册的窗口，确保重复 id 等被拒绝的页面也能收到
+    private replyRegister(message: MessageEventData, reply: HandshakeReply, port?: MessagePort) {
+        const { source, sourceId, origin, eventOrigin, key } = message;
+        if (sourceId === this.iframeId) {
+            if (!reply.accepted) this.logger.error('handshake', `Handshake failed: ${reply.reason}`);
             return;
         }
+        if (!reply.accepted) {
+            this.logger.error('handshake', `Rejected registration of ${sourceId}: ${reply.reason}`, { peerId: sourceId, key });
+        }
 
-        if (this.isHandlingMessage) return;
-        this.isHandlingMessage = true;
+        const ack = this.createMessage({ targetId: sourceId, data: reply, replyTo: key, transfer: port ? [port] : undefined }, 'register');
+        if (source && typeof source.postMessage === 'function') {
+            this.postToWindow(source, { ...ack, token: reply.accepted ? reply.sessionToken : undefined }, eventOrigin || origin || '*');
+        } else if (reply.accepted) {
+            this.postToNextHop(ack);
+        }
+    }
 
-        try {
-            while (this.messageQueue.length) {
-                const msg = this.messageQueue.shift()!;
-                if (msg.targetId === this.iframeId) {
-                    const decoded = { ...msg, data: this.deCodeMessage(msg.data) };
-                    await Promise.resolve(); // 保证回调在异步时序上能被测试捕捉
-                    this.messageCallback?.(decoded);
-                } else {
-                    this.sendMessage(msg, msg.type);
+    private canReplaceBinding(record: RegisteredIframe, source?: WindowProxy | null): boolean {
+        if (!record.connected) return true;
+        const win = this.peerWindow(record);
+        // iframe 已离开文档、弹出窗口已关闭时原绑定失效
+        if (!win || win.closed || (record.iframe && !record.iframe.isConnected)) return true;
+        return !!source && win === source;
+    }
+
+    // 发往子页面的窗口：优先取绑定元素当前的 contentWindow，弹出窗口或尚未找到元素时为注册请求的来源窗口
+    private peerWindow(record: RegisteredIframe): WindowProxy | null {
+        return record.iframe?.contentWindow || record.window || null;
+    }
+
+    private attachmentWindow(attachment: Attachment): WindowProxy | null {
+        if (attachment.element) return attachment.element.contentWindow;
+        return isWindow(attachment.target) ? attachment.target : null;
+    }
+
+    // 选择器尚未匹配到元素时只校验来源
+    private checkAttachment(attachment: Attachment, source: WindowProxy | null | undefined, origin: string): 'source-mismatch' | 'origin-mismatch' | null {
+        const win = this.attachmentWindow(attachment);
+        if (win && win !== source) return 'source-mismatch';
+        if (attachment.origin !== '*' && attachment.origin !== origin) return 'origin-mismatch';
+        return null;
+    }
+
+    // 声明的元素离开文档时：选择器重新匹配，直接传入且尚未注册的元素放弃声明
+    private refreshAttachment(attachment: Attachment, roots: ReturnType<typeof collectRoots>) {
+        if (attachment.element && !attachment.element.isConnected) {
+            if (typeof attachment.target !== 'string') {
+                if (!this.registeredIframe[attachment.id]) {
+                    this.dropAttachment(attachment.id, new Error(`Attached iframe of ${attachment.id} left the document`));
                 }
+                return;
             }
-        } finally {
-            this.isHandlingMessage = false;
+            attachment.element = null;
         }
+        if (!attachment.element && typeof attachment.target === 'string') attachment.element = queryFrame(attachment.target, roots);
     }
 
-    public sendMessage(message: Partial<IframeMessage> = {}, type: MessageType = 'message') {
-        const built: IframeMessage = (message.key ? (message as IframeMessage) : this.createMessage(message, type));
+    private dropAttachment(id: string, reason: Error) {
+        const attachment = this.attachments.get(id);
+        if (!attachment) return;
+        this.attachments.delete(id);
+        this.releaseDomObserver();
+        attachment.reject(reason);
+    }
 
-        if (built.targetId === this.iframeId) {
-            // eslint-disable-next-line no-console
-            console.warn('Attempt to send message to itself; use onMessage handler directly if needed');
-            return;
+    // 注册时未找到对应元素（如尚未插入文档）的页面，在元素出现后补上绑定
+    private bindFrame(record: RegisteredIframe, iframe: HTMLIFrameElement | null | undefined) {
+        if (!iframe || !record.window || iframe.contentWindow !== record.window) return;
+        record.iframe = iframe;
+        this.bindLoadListener(record);
+        this.watchFrame(iframe);
+        this.logger.debug('handshake', `Page ${record.id} bound to its iframe element`, { peerId: record.id });
+    }
+
+    /**
+     * 子页面在加载过程中注册，注册后的首个 load 只是这次加载完成（图片、字体等子资源可能很慢）；
+     * 此后再触发 load 说明子页面已刷新或跳转。注册晚于 load 的页面刷新时由 pagehide 通知与同一窗口的重新注册处理。
+     */
+    private bindLoadListener(record: RegisteredIframe) {
+        if (!record.iframe) return;
+        let loaded = false;
+        const onLoad = () => {
+            if (!loaded) {
+                loaded = true;
+                return;
+            }
+            this.markDisconnected(record.id, 'reload');
+        };
+        record.onLoad = onLoad;
+        record.iframe.addEventListener('load', onLoad);
+    }
+
+    private unbindLoadListener(record: RegisteredIframe) {
+        if (record.iframe && record.onLoad) record.iframe.removeEventListener('load', record.onLoad);
+        record.onLoad = null;
+    }
+
+    // 将子页面标记为断开：作废会话令牌，后续发往它的消息进入缓冲，等待重新注册
+    private markDisconnected(id: string, reason: string) {
+        const record = this.registeredIframe[id];
+        if (!record || !record.connected || id === this.iframeId) return;
+        // 心跳超时与队列溢出由本页面判定，子页面并不知情：在作废令牌之前通知它重新注册
+        if (reason === 'timeout' || reason === 'throttled') this.sendMessage({ targetId: id, data: { reason } }, 'disconnect');
+        record.connected = false;
+        record.sessionToken = '';
+        // 页面已卸载或重新加载，其持有的回调引用与直连端口均已失效
+        if (reason === 'reload' || reason === 'unload') {
+            this.remoteObjects.dropPeer(id);
+            this.dropDirectLinks(id);
         }
+        this.dropStreams(id, `page ${id} disconnected (${reason})`);
+        this.logger.warn('lifecycle', `Page ${id} disconnected (${reason})`, { peerId: id });
+        this.emitPeerEvent('disconnected', id, { reason });
+    }
 
-        built.path = this.addMessagePath(built.path || []);
+    // 从注册表中删除子页面，其回调引用、直连端口、待投递消息与经由它的路由一并清理
+    private removePeer(record: RegisteredIframe, reason: PeerRemovalReason) {
+        const { id } = record;
+        const info = this.toPeerInfo(record);
+        this.unbindLoadListener(record);
+        this.closePeerPort(record);
+        this.remoteObjects.dropPeer(id);
+        this.dropStreams(id, `page ${id} was removed (${reason})`);
+        delete this.registeredIframe[id];
+        delete this.pendingDeliveries[id];
+        this.rateBuckets.delete(id);
+        const descendants = Object.keys(this.routes).filter((desc) => this.routes[desc] === id);
+        descendants.forEach((desc) => delete this.routes[desc]);
+        this.withdrawRoutes([id, ...descendants]);
+        this.dropAttachment(id, new Error(`Page ${id} was removed (${reason})`));
+        this.releaseDomObserver();
+        this.logger.info('lifecycle', `Page ${id} removed (${reason})`, { peerId: id });
+        this.emitPeerEvent('peer:removed', id, { ...info, reason });
+    }
 
-        if (this.isMainPage()) {
-            if (built.targetId === this.defaultMainPageId) {
-                const decoded = { ...built, data: this.deCodeMessage(built.data) };
-                console.log('main decoded data:', decoded)
-                this.messageCallback?.(decoded);
-            } else {
-                const target = this.registeredIframe[built.targetId as string];
-                if (target?.iframe?.contentWindow) {
-                    target.iframe.contentWindow.postMessage(built, target.origin);
-                } else {
-                    // eslint-disable-next-line no-console
-                    console.warn(`Target iframe ${built.targetId} not found or not bound`);
-                }
+    // 与该子页面及经由它路由的页面之间未结束的流均以错误结束
+    private dropStreams(id: string, reason: string) {
+        const descendants = Object.keys(this.routes).filter((desc) => this.routes[desc] === id);
+        this.streams.dropPeer([id, ...descendants], new StreamCancelledError(reason));
+    }
+
+    // 首个子页面注册或 attach() 后开始监听文档，没有需要跟踪的页面与声明时停止
+    private observeDom() {
+        if (this.domObserver || typeof MutationObserver === 'undefined') return;
+        this.domObserver = new MutationObserver((records) => this.syncBindings(records));
+        this.domObserver.observe(document, DOM_OBSERVE_OPTIONS);
+    }
+
+    private releaseDomObserver() {
+        if (!this.domObserver || this.attachments.size) return;
+        if (Object.keys(this.registeredIframe).some((id) => id !== this.iframeId)) return;
+        this.domObserver.disconnect();
+        this.domObserver = null;
+    }
+
+    // MutationObserver 不报告 shadow root 内的变化，需逐个监听；重复 observe 同一节点只会更新选项
+    private watchRoots(roots: ReturnType<typeof collectRoots>) {
+        roots.forEach((root) => this.domObserver?.observe(root, DOM_OBSERVE_OPTIONS));
+    }
+
+    // 绑定的 iframe 位于 shadow root 内时监听该 shadow root，以便发现它离开文档
+    private watchFrame(iframe: HTMLIFrameElement | null) {
+        const root = iframe?.getRootNode();
+        if (root instanceof ShadowRoot) this.watchRoots([root]);
+    }
+
+    // 尚有选择器未匹配到元素，或注册时未找到 iframe 的页面
+    private hasPendingBindings(): boolean {
+        const unmatched = Array.from(this.attachments.values()).some((attachment) => !attachment.element && typeof attachment.target === 'string');
+        return unmatched || Object.keys(this.registeredIframe).some((id) => {
+            const record = this.registeredIframe[id];
+            return id !== this.iframeId && !record.iframe && !!record.window;
+        });
+    }
+
+    /**
+     * 文档变化后只检查变化涉及的节点：有节点移出时移除 iframe 已离开文档的页面，有待绑定的页面或声明时
+     * 在新插入的子树（含其中的 shadow root）里查找 iframe。
+     * 在回调时检查 isConnected，同一任务内移出又插回的 iframe 不算离开。
+     */
+    private syncBindings(records: MutationRecord[]) {
+        if (records.some((record) => record.removedNodes.length)) {
+            this.attachments.forEach((attachment) => {
+                if (attachment.element && !attachment.element.isConnected) this.refreshAttachment(attachment, collectRoots());
+            });
+            Object.keys(this.registeredIframe).forEach((id) => {
+                const record = this.registeredIframe[id];
+                if (id !== this.iframeId && record.iframe && !record.iframe.isConnected) this.removePeer(record, 'removed');
+            });
+        }
+
+        if (this.hasPendingBindings()) {
+            const added: HTMLIFrameElement[] = [];
+            records.forEach((record) => record.addedNodes.forEach((node) => {
+                const roots = shadowRootsWithin(node);
+                this.watchRoots(roots);
+                added.push(...framesWithin(node, roots));
+            }));
+            if (added.length) this.bindAdded(added);
+        }
+        this.releaseDomObserver();
+    }
+
+    private bindAdded(frames: HTMLIFrameElement[]) {
+        this.attachments.forEach((attachment) => {
+            const selector = attachment.target;
+            if (attachment.element || typeof selector !== 'string') return;
+            attachment.element = frames.find((iframe) => iframe.isConnected && iframe.matches(selector)) || null;
+        });
+        Object.keys(this.registeredIframe).forEach((id) => {
+            const record = this.registeredIframe[id];
+            if (id === this.iframeId || record.iframe || !record.window) return;
+            this.bindFrame(record, this.attachments.get(id)?.element || frames.find((iframe) => iframe.contentWindow === record.window));
+        });
+    }
+
+    /**
+     * 上级页面使本页面的会话失效：会话与端口随之失效。被 unregister() 移除时不再自动重新注册；
+     * 因心跳超时、队列溢出等被断开时立即重新注册，期间发出的消息先缓存。
+     */
+    private handleUnregistered(message: IframeMessage) {
+        const parentId = this.parentId || this.defaultMainPageId;
+        if (this.isMainPage() || !this.sessionToken || message.sourceId !== parentId || message.targetId !== this.iframeId) return;
+        const notice = message.data as { reason?: unknown } | null;
+        const reason = notice && typeof notice.reason === 'string' ? notice.reason : 'unregistered';
+        this.sessionToken = null;
+        this.stopRegisterRetry();
+        this.parentPort?.close();
+        this.parentPort = null;
+        this.directPorts.forEach((port) => port.close());
+        this.directPorts.clear();
+        this.streams.dropPeer(null, new StreamCancelledError(`page ${this.iframeId} was disconnected by ${parentId} (${reason})`));
+        this.logger.warn('lifecycle', `Page ${this.iframeId} was disconnected by ${parentId} (${reason})`, { peerId: parentId });
+        this.emitPeerEvent('disconnected', parentId, { reason });
+        if (reason !== 'unregistered') this.sendRegister();
+    }
+
+    private bufferDelivery(id: string, message: IframeMessage) {
+        const queue = this.pendingDeliveries[id] || (this.pendingDeliveries[id] = []);
+        queue.push(message);
+        if (queue.length > MAX_BUFFERED_MESSAGES) {
+            const dropped = queue.shift();
+            this.logger.warn('delivery', `Buffer for ${id} is full, dropped message ${dropped?.key}`, { peerId: id, key: dropped?.key, type: dropped?.type });
+        }
+    }
+
+    private flushPendingDeliveries(id: string) {
+        const queue = this.pendingDeliveries[id];
+        if (!queue) return;
+        delete this.pendingDeliveries[id];
+        queue.forEach((message) => this.postToNextHop(message));
+    }
+
+    // 生命周期事件与普通消息走同一订阅通道，channel 即事件名
+    private emitPeerEvent(event: LifecycleEvent, peerId: string, extra: Record<string, unknown> = {}) {
+        this.emitMessage({
+            type: 'lifecycle',
+            event,
+            key: this.getMessageKey(),
+            sourceId: peerId,
+            targetId: this.iframeId,
+            data: { id: peerId, ...extra },
+            timestamp: Date.now(),
+        });
+    }
+
+    // 处理上级页面的握手应答
+    private completeHandshake(message: IframeMessage) {
+        const reply = message.data as HandshakeReply | null;
+        if (!reply || reply.accepted !== true) {
+            const reason = reply && reply.accepted === false ? reply.reason : 'Invalid handshake reply';
+            this.logger.error('handshake', `Registration of ${this.iframeId} rejected: ${reason}`, { peerId: message.sourceId, key: message.key });
+            this.stopRegisterRetry();
+            this.rejectReady(new HandshakeError(reason));
+            return;
+        }
+        if (!isSupportedVersion(reply.version)) {
+            const reason = `Unsupported protocol version ${reply.version} negotiated by host`;
+            this.logger.error('handshake', reason, { peerId: message.sourceId, key: message.key });
+            this.rejectReady(new HandshakeError(reason));
+            return;
+        }
+        const { accepted: _accepted, ...result } = reply;
+        if (this.security) {
+            if (!result.publicKey || !result.rootPublicKey) {
+                const reason = 'Host does not support message security';
+                this.logger.error('handshake', reason, { peerId: message.sourceId, key: message.key });
+                this.stopRegisterRetry();
+                this.rejectReady(new HandshakeError(reason));
+                return;
             }
-        } else {
-            // window.parent.postMessage(built, this.origin);
-            const targetOrigin = (typeof window === 'object' && (window as any).__TEST_ENV__) ? '*' : this.origin;
-            window.parent.postMessage(message, targetOrigin);
+            this.security.setPeerKey(message.sourceId || this.defaultMainPageId, result.publicKey);
+            this.security.setPeerKey(this.defaultMainPageId, result.rootPublicKey);
         }
+        // 上级页面无法解码首选 codec 时改用协商结果
+        const negotiated = getCodec(result.codec);
+        if (negotiated) this.codec = negotiated;
+        this.stopRegisterRetry();
+        this.sessionToken = result.sessionToken;
+        this.parentId = message.sourceId || this.parentId;
+        const port = result.port ? (message.transfer || []).find(isMessagePort) : undefined;
+        this.bindParentPort(port || null);
+        this.resolveReady(result);
+        this.emitPeerEvent(this.hasConnected ? 'reconnected' : 'connected', this.parentId || this.defaultMainPageId);
+        this.hasConnected = true;
+        // 中间层页面的应答不含共享状态，由各状态自行向主页面同步
+        this.sharedStates.handleHandshake(message.sourceId === this.defaultMainPageId ? result.states : undefined);
+
+        // 发送握手完成前缓存的消息
+        const buffered = this.outboundBuffer.splice(0);
+        buffered.forEach((msg) => this.postToParent(msg));
     }
 
-    public onMessage(callback: (msg: IframeMessage) => void) {
-        if (typeof callback !== 'function') {
-            throw new Error('onMessage callback must be a function');
+    // 校验入站帧的会话令牌：来自子页面的帧对比注册表中的令牌，来自上级页面的帧对比自身令牌
+    private verifySession(message: IframeMessage): boolean {
+        if (message.type === 'register' && message.replyTo) {
+            // 握手应答的令牌在 data 中下发，只需匹配本页面发出的注册请求
+            return !!this.registerKey && message.replyTo === this.registerKey;
         }
-        this.messageCallback = callback;
-        try {
-            this.onMessageCallbackReady();
-        } catch {
-            /* ignore */
+        const path = Array.isArray(message.path) ? message.path : [];
+        const lastHop = path[path.length - 1];
+        const peer = lastHop && lastHop !== this.iframeId ? this.registeredIframe[lastHop] : undefined;
+        const expected = peer ? peer.sessionToken : (this.isMainPage() ? null : this.sessionToken);
+        if (!expected || message.token !== expected) {
+            this.logger.warn('security', `Dropped message ${message.key} from ${lastHop}: invalid or missing session token`, this.frameFields(message, lastHop));
+            return false;
         }
+        return true;
     }
 
-    public destroy() {
-        if (this._destroyed) return;
-        this._destroyed = true;
+    private isDescendant(id?: string): boolean {
+        return !!id && id !== this.iframeId && (!!this.registeredIframe[id] || !!this.routes[id]);
+    }
 
-        try {
-            window.removeEventListener('message', this._handleWindowMessage, false);
-            if (this._autoDestroy) {
-                window.removeEventListener('beforeunload', this._handleWindowUnload, false);
-                window.removeEventListener('unload', this._handleWindowUnload, false);
-            }
-        } catch (err) { /* ignore */ }
+    /**
+     * 按访问控制策略检查后代页面发出的消息（在转发或投递之前），拒绝时向发送方回 error 帧。
+     * 仅检查用户消息、请求与流的 open 帧；响应及流的后续控制帧依附于已放行的消息。
+     */
+    private enforcePolicy(message: IframeMessage): boolean {
+        if (!this.policy) return true;
+        const { type, sourceId, targetId } = message;
+        // 注册帧在建立路由之前转发，由握手流程校验
+        if (type === 'register' || !sourceId || sourceId === this.iframeId) return true;
 
-        // 清理引用
-        this.messageCallback = null;
-        this.messageQueue.length = 0;
-        this.registerQueue.length = 0;
-        Object.keys(this.registeredIframe).forEach(k => {
-            const rec = this.registeredIframe[k];
-            if (rec) rec.iframe = null;
+        // 来自上级页面的消息不受本页面策略约束
+        const path = message.path || [];
+        const lastHop = path[path.length - 2];
+        if (!lastHop || !this.registeredIframe[lastHop]) return true;
+
+        let denial: PolicyDenial | null = null;
+        const spoofed = sourceId !== lastHop && this.routes[sourceId] !== lastHop;
+        const multicast = this.isMainPage() && this.isMulticast(message);
+        if (spoofed) {
+            // sourceId 必须经由其所在的子树到达，防止冒充其他页面绕过策略
+            denial = { code: 'forbidden', reason: `${lastHop} cannot send on behalf of ${sourceId}`, key: message.key, targetId };
+        } else if (type === 'message' || type === 'request' || (type === 'stream' && !message.streamId)) {
+            denial = this.policy.check(message, sourceId, multicast);
+        } else if (targetId && targetId !== this.iframeId && !multicast && !this.policy.canTarget(sourceId, targetId)) {
+            // 其余帧（应答、心跳、流控制、端口等）转发给其他页面时同样受 targets 限制，多播在展开时逐个检查
+            denial = { code: 'forbidden', reason: `${sourceId} is not allowed to message ${targetId}`, key: message.key, targetId };
+        }
+        if (!denial) return true;
+
+        this.logger.warn('policy', `Message ${message.key} from ${sourceId} denied by policy: ${denial.reason}`, this.frameFields(message));
+        const route = spoofed ? [this.iframeId, lastHop] : [...path].reverse();
+        this.sendMessage({ targetId: spoofed ? lastHop : sourceId, data: denial, replyTo: message.key, route }, 'error');
+        return false;
+    }
+
+    // 处理上级页面回的 error 帧：对应的请求或流立即失败，同时以 'error' channel 通知监听器
+    private handleDenial(message: IframeMessage) {
+        const denial = message.data as PolicyDenial | null;
+        if (!denial || typeof denial.code !== 'string') return;
+        const error = new PermissionDeniedError(denial.code, denial.reason);
+        const pending = message.replyTo ? this.pendingRequests.get(message.replyTo) : undefined;
+        if (pending) {
+            this.pendingRequests.delete(message.replyTo as string);
+            if (pending.timer) clearTimeout(pending.timer);
+            pending.reject(error);
+        }
+        if (message.replyTo) this.streams.reject(message.replyTo, error);
+        this.emitMessage(message);
+    }
+
+    // 签名/加密在异步链上依次完成，保证同一页面发出的消息顺序不变
+    private sendSealed(message: IframeMessage) {
+        if (message.method === KEY_LOOKUP_METHOD) {
+            // 公钥查询不能排在等待查询结果的消息之后；其接收方为主页面或查询方，公钥在握手时已知
+            this.postSealed(message, message.targetId as string).catch((err) => {
+                this.logger.report('security', err, `Failed to seal message ${message.key}, dropped`, this.frameFields(message, message.targetId));
+            });
+            return;
+        }
+        this.outboundChain = this.outboundChain.then(async () => {
+            if (!this.isMainPage()) await this.ready;
+            if (this._destroyed) return;
+            if (this.isMainPage() && this.isMulticast(message)) {
+                await this.fanOut(message);
+                return;
+            }
+            // 子页面无法展开多播，交由主页面代收
+            const target = message.targetId === BROADCAST_TARGET || message.targets ? this.defaultMainPageId : (message.targetId as string);
+            await this.postSealed(message, target);
+        }).catch((err) => {
+            this.logger.report('security', err, `Failed to seal message ${message.key}, dropped`, this.frameFields(message, message.targetId));
+        });
+    }
+
+    private async postSealed(message: IframeMessage, target: string) {
+        const sealed = await (this.security as SecurityLayer).seal(message, this.decodeData(message), target, this.iframeId);
+        if (!this._destroyed) this.postToNextHop(sealed);
+    }
+
+    private async openSealed(message: IframeMessage): Promise<IframeMessage | null> {
+        const opened = await (this.security as SecurityLayer).open(message, this.iframeId, this.defaultMainPageId);
+        if (!opened && !this._destroyed) {
+            const path = Array.isArray(message.path) ? message.path : [];
+            this.reportViolation({
+                reason: 'invalid-signature',
+                origin: message.origin || '',
+                sourceId: message.sourceId,
+                lastHop: path[path.length - 2],
+                type: message.type,
+                key: message.key,
+                dropped: true,
+            });
+        }
+        return this._destroyed ? null : opened;
+    }
+
+    // 主页面从注册表与路由通告中查找公钥；其他页面向主页面查询，分组等多播目标由主页面代收
+    private async lookupPublicKey(id: string): Promise<KeyLookupResult | null> {
+        const security = this.security as SecurityLayer;
+        if (!this.isMainPage()) {
+            return this.invoke<KeyLookupResult | null>(this.defaultMainPageId, KEY_LOOKUP_METHOD, id);
+        }
+        const known = security.getPeerKey(id);
+        if (known) return { recipient: id, publicKey: known };
+        const probe: IframeMessage = { targetId: id };
+        if (id === this.iframeId || this.isMulticast(probe)) return { recipient: this.iframeId, publicKey: security.publicKey };
+        return null;
+    }
+
+    /**
+     * 按浏览器提供的 event.source / event.origin 校验入站帧的直接发送方（上一跳）：
+     * 来自子页面的帧须来自注册时绑定的窗口及来源，来自上级页面的帧须来自上级窗口且来源在白名单内。
+     * 注册请求在 handleRegister 中校验。非严格模式下只上报不丢弃，缺少 source / origin 时视为无法校验。
+     */
+    private verifySource(event: MessageEvent): boolean {
+        const message = event.data as IframeMessage;
+        if (message.type === 'register' && !message.replyTo) return true;
+        const path = Array.isArray(message.path) ? message.path : [];
+        const lastHop = path[path.length - 1];
+        const peer = lastHop && lastHop !== this.iframeId ? this.registeredIframe[lastHop] : undefined;
+        const { origin, source } = event;
+
+        let reason: SecurityViolation['reason'] | null = null;
+        let expectedOrigin: string | undefined;
+        if (!origin || !source) {
+            if (this.strict) reason = 'unverifiable';
+        } else if (peer) {
+            expectedOrigin = peer.origin;
+            if (this.peerWindow(peer) !== source) reason = 'source-mismatch';
+            else if (peer.origin !== '*' && peer.origin !== origin) reason = 'origin-mismatch';
+        } else if (source !== this.upstreamWindow()) {
+            reason = 'source-mismatch';
+        } else if (Array.isArray(this.originWhitelist) && !isOriginAllowed(origin, this.originWhitelist)) {
+            reason = 'origin-not-allowed';
+        }
+        if (!reason) return true;
+
+        this.reportViolation({
+            reason, origin: origin || '', expectedOrigin, sourceId: message.sourceId, lastHop, type: message.type, key: message.key, dropped: this.strict,
+        });
+        if (reason === 'origin-not-allowed') {
+            this.logger.report('security', new OriginRejectedError(origin, message.sourceId), undefined, this.frameFields(message, lastHop));
+        }
+        return !this.strict;
+    }
+
+    private reportViolation(violation: SecurityViolation) {
+        const peerId = violation.lastHop || violation.sourceId;
+        this.logger.warn(
+            'security',
+            `Security violation (${violation.reason}) for message ${violation.key} from ${peerId}, origin "${violation.origin}"${violation.dropped ? ', dropped' : ''}`,
+            { peerId, key: violation.key, type: violation.type },
+        );
+        try {
+            this.onSecurityViolation?.(violation);
+        } catch (err) {
+            this.logger.report('security', err, 'onSecurityViolation handler threw');
+        }
+    }
+
+    // 上级页面的窗口：iframe 内为 window.parent，window.open 打开的弹出窗口为 window.opener
+    private upstreamWindow(): WindowProxy {
+        return window.parent !== window.self ? window.parent : (window.opener || window.parent);
+    }
+
+    private async handleMessage(message?: IframeMessage, event?: MessageEvent) {
+        if (!this.isHost()) {
+            if (!message) return;
+            // 同一窗口内可能收到发往其他页面的消息（如自身发出的消息）
+            if (message.targetId && message.targetId !== this.iframeId) return;
+            this.tap('in', event ? 'window' : 'port', message);
+            if (!this.verifySession(message)) return;
+            if (event && !this.verifySource(event)) return;
+            if (!this.acceptRoute(message)) return;
+            await this.deliverMessage(message);
+            return;
+        }
+
+        if (this.isHandlingMessage) return;
+        this.isHandlingMessage = true;
+
+        try {
+            while (this.messageQueue.length) {
+                const msg = this.messageQueue.shift() as IframeMessage;
+                if (!this.acceptRoute(msg)) continue;
+                if (!this.enforcePolicy(msg)) continue;
+                if (msg.targetId === this.iframeId) {
+                    await this.deliverMessage(msg);
+                    continue;
+                }
+                const relayed = this.middleware.applies('relay', msg) ? await this.runRelayMiddleware(msg) : msg;
+                if (!relayed) continue;
+                if (this.isMainPage() && this.isMulticast(relayed)) {
+                    if (this.security && isSealedType(relayed.type)) {
+                        // 子页面发起的多播以主页面为接收方签名，验签后逐个重新签名投递
+                        void this.openSealed(relayed).then((result) => result && this.fanOut(result));
+                    } else {
+                        await this.fanOut(relayed);
+                    }
+                } else {
+                    this.postToNextHop(relayed);
+                }
+            }
+        } finally {
+            this.isHandlingMessage = false;
+        }
+    }
+
+    /**
+     * 第二个参数可为消息类型，或 { type, transfer, reliable }：transfer 中的对象（ArrayBuffer、MessagePort、
+     * ImageBitmap、OffscreenCanvas 等）直接交给 postMessage 转移所有权，此时 data 固定使用 structured 编码。
+     * reliable 为 true 时返回的 Promise 在接收方 ack 后 resolve，超过期限则以 DeliveryError 拒绝；
+     * 否则发出后即 resolve。
+     */
+    public sendMessage(message: OutgoingMessage = {}, typeOrOptions: MessageType | SendOptions = 'message'): Promise<void> {
+        const options: SendOptions = typeof typeOrOptions === 'string' ? { type: typeOrOptions } : typeOrOptions;
+        const { type = 'message', transfer, reliable } = options;
+        const normalized = this.normalizeTarget({
+            ...message,
+            ...(transfer?.length ? { transfer } : {}),
+            ...(reliable ? { reliable: true } : {}),
+        });
+        const built: IframeMessage = message.key
+            ? (normalized as IframeMessage)
+            : this.createMessage(normalized, type);
+
+        if (built.targetId === this.iframeId) {
+            this.logger.warn('transport', 'Attempt to send message to itself; use onMessage handler directly if needed', { key: built.key, type: built.type });
+            return Promise.resolve();
+        }
+        if (this.middleware.applies('outbound', built)) {
+            return this.runOutboundMiddleware(built, options);
+        }
+        return this.transmit(built, options);
+    }
+
+    // 出站中间件看到的是编码前的 data，处理后按原 codec 重新编码；串行执行以保持发送顺序
+    private runOutboundMiddleware(built: IframeMessage, options: SendOptions): Promise<void> {
+        const draft = { ...built, data: this.decodeData(built) };
+        const processed = this.outboundMiddlewareChain.then(() => this.middleware.run('outbound', draft, this.middlewareContext('outbound')));
+        this.outboundMiddlewareChain = processed.then(() => undefined, () => undefined);
+        const sent = processed.then((result) => {
+            if (!result || this._destroyed) return undefined;
+            return this.transmit(this.encodeDraft(result, built.codec), options);
+        }, (err) => {
+            this.logger.warn('middleware', `Middleware rejected outgoing message ${built.key}`, { ...this.frameFields(built, built.targetId), error: err });
+            throw err;
+        });
+        // 调用方不关心结果时不产生未处理的 rejection
+        sent.catch(() => undefined);
+        return sent;
+    }
+
+    private encodeDraft(message: IframeMessage, codecId?: string): IframeMessage {
+        const codec = (codecId && getCodec(codecId)) || structuredCodec;
+        try {
+            return { ...message, data: codec.encode(message.data), codec: codec.id };
+        } catch (err) {
+            this.logger.warn('codec', `Codec "${codec.id}" failed to encode, falling back to structured clone`, { error: err });
+            return { ...message, codec: structuredCodec.id };
+        }
+    }
+
+    private transmit(built: IframeMessage, options: SendOptions): Promise<void> {
+        built.path = this.addMessagePath(built.path || []);
+        if (!built.reliable) {
+            this.dispatchOutbound(built);
+            return Promise.resolve();
+        }
+        if (built.targetId === BROADCAST_TARGET || built.targets || (this.isMainPage() && this.isMulticast(built))) {
+            return Promise.reject(new DeliveryError('unsupported', built, 'Reliable delivery requires a single target page'));
+        }
+        // 重发时 transfer 中的对象已在首次发送后被转移（detached），无法再次发送
+        if (built.transfer?.length) {
+            return Promise.reject(new DeliveryError('unsupported', built, 'Reliable delivery cannot transfer objects'));
+        }
+        return this.outbox.add(built, Date.now() + (options.deadline ?? this.deliveryDeadline));
+    }
+
+    private dispatchOutbound(built: IframeMessage) {
+        if (this.security && isSealedType(built.type)) {
+            this.sendSealed(built);
+            return;
+        }
+        if (this.isMainPage() && this.isMulticast(built)) {
+            void this.fanOut(built);
+            return;
+        }
+        this.postToNextHop(built);
+    }
+
+    /**
+     * 向所有已注册页面广播（不含自身），可通过 exclude 排除部分页面。
+     */
+    public broadcast(data?: unknown, options: BroadcastOptions = {}) {
+        const { exclude, event } = options;
+        this.sendMessage({ targetId: BROADCAST_TARGET, data, event, exclude }, 'message');
+    }
+
+    // 数组目标转换为 targets 字段，帧内 targetId 统一为字符串
+    private normalizeTarget(message: OutgoingMessage): Partial<IframeMessage> {
+        const { targetId, ...rest } = message;
+        if (Array.isArray(targetId)) {
+            return { ...rest, targetId: BROADCAST_TARGET, targets: [...targetId] };
+        }
+        return { ...rest, targetId };
+    }
+
+    // '*'、targets 数组或已知分组名（且非已注册/可路由页面 id）视为多播
+    private isMulticast(message: IframeMessage): boolean {
+        const { targetId } = message;
+        if (Array.isArray(message.targets) || targetId === BROADCAST_TARGET) return true;
+        if (!targetId || this.registeredIframe[targetId] || this.routes[targetId]) return false;
+        return Object.keys(this.registeredIframe).some((id) => this.registeredIframe[id].groups.includes(targetId));
+    }
+
+    private resolveRecipients(message: IframeMessage): string[] {
+        if (Array.isArray(message.targets)) return message.targets;
+        const reachable = [...Object.keys(this.registeredIframe), ...Object.keys(this.routes)];
+        if (message.targetId === BROADCAST_TARGET) return reachable;
+        return Object.keys(this.registeredIframe).filter((id) => this.registeredIframe[id].groups.includes(message.targetId as string));
+    }
+
+    // 主页面按注册表展开多播消息，逐个投递（排除发送方与 exclude）
+    private async fanOut(message: IframeMessage) {
+        const excluded = new Set([...(message.exclude || []), message.sourceId]);
+        const recipients = Array.from(new Set(this.resolveRecipients(message)))
+            .filter((id) => !excluded.has(id))
+            .filter((id) => !this.policy || !this.isDescendant(message.sourceId) || this.policy.canTarget(message.sourceId as string, id));
+        // 同一对象无法转移给多个接收方，多播时改为复制
+        const { targets: _targets, exclude: _exclude, transfer, ...rest } = message;
+        if (transfer?.length && recipients.length > 1) {
+            this.logger.warn('transport', `Message ${message.key} is multicast, transferables will be copied instead of transferred`, this.frameFields(message));
+        }
+        const single = recipients.length === 1 && transfer?.length ? { transfer } : {};
+
+        for (const id of recipients) {
+            const copy = this.encodeFor({ ...rest, ...single, targetId: id, path: [...(message.path || [])], multicast: true }, id);
+            if (id === this.iframeId) {
+                // eslint-disable-next-line no-await-in-loop
+                await this.deliverMessage(copy, true);
+            } else if (this.security && isSealedType(copy.type)) {
+                // eslint-disable-next-line no-await-in-loop
+                await this.postSealed(copy, id);
+            } else {
+                this.postToNextHop(copy);
+            }
+        }
+    }
+
+    // opened 为 true 表示消息已在本地验签（或由本页面产生），无需再次校验
+    private async deliverMessage(message: IframeMessage, opened = false) {
+        if (this.security && !opened && isSealedType(message.type)) {
+            // 验签可能需要向主页面查询公钥，不阻塞消息队列
+            void this.openSealed(message).then((result) => {
+                if (result) void this.deliverMessage(result, true);
+            });
+            return;
+        }
+        // 重复的可靠消息同样需要确认：发送方可能没收到上一次的 ack
+        if (message.reliable && message.key && message.sourceId) {
+            const route = [...(message.path || [])].reverse();
+            this.sendMessage({ targetId: message.sourceId, replyTo: message.key, route }, 'ack');
+        }
+        // 签名校验之后再记录 key，避免伪造帧抢先占用合法消息的 key
+        const verdict = this.replayGuard.check(message);
+        if (verdict !== 'accept') {
+            this.logger.warn('security', `Dropped ${verdict} message ${message.key} from ${message.sourceId}`, this.frameFields(message));
+            return;
+        }
+        this.traceFrame('in', message, message.sourceId);
+        const decoded = { ...message, data: this.decodeData(message) };
+        if (message.type === 'register' && message.replyTo) {
+            this.completeHandshake(decoded);
+        }
+        await Promise.resolve(); // 保证回调在异步时序上能被测试捕捉
+        if (this.middleware.applies('inbound', decoded)) {
+            this.runInboundMiddleware(decoded);
+            return;
+        }
+        this.dispatchMessage(decoded);
+    }
+
+    // 入站中间件串行执行，保持派发顺序
+    private runInboundMiddleware(message: IframeMessage) {
+        const processed = this.inboundMiddlewareChain.then(() => this.middleware.run('inbound', message, this.middlewareContext('inbound')));
+        this.inboundMiddlewareChain = processed.then((result) => {
+            if (result && !this._destroyed) this.dispatchMessage(result);
+        }, (err) => this.rejectByMiddleware(message, err));
+    }
+
+    private async runRelayMiddleware(message: IframeMessage): Promise<IframeMessage | null> {
+        try {
+            return await this.middleware.run('relay', message, this.middlewareContext('relay'));
+        } catch (err) {
+            this.rejectByMiddleware(message, err);
+            return null;
+        }
+    }
+
+    private middlewareContext(direction: MiddlewareDirection) {
+        return { direction, bridgeId: this.iframeId };
+    }
+
+    // 中间件拒绝入站或转发的帧：上报错误，被拒绝的请求同时以错误响应回复发送方
+    private rejectByMiddleware(message: IframeMessage, err: unknown) {
+        this.logger.report('middleware', err, `Middleware rejected message ${message.key}`, this.frameFields(message));
+        if (this._destroyed || message.type !== 'request' || !message.sourceId || !message.key) return;
+        const route = [...(message.path || [])].reverse();
+        const payload: ResponsePayload = { ok: false, error: serializeError(err) };
+        this.sendMessage({ targetId: message.sourceId, data: payload, method: message.method, replyTo: message.key, route }, 'response');
+    }
+
+    // 入站消息的环路与跳数检查，通过后把自身追加到 path
+    private acceptRoute(message: IframeMessage): boolean {
+        const path = Array.isArray(message.path) ? message.path : [];
+        if (path.includes(this.iframeId)) {
+            this.logger.warn('route', `Routing loop detected for message ${message.key}, path: ${path.join(' > ')}`, this.frameFields(message));
+            return false;
+        }
+        if (path.length >= this.maxHops) {
+            this.logger.warn('route', `Message ${message.key} exceeded max hops (${this.maxHops}), dropped`, this.frameFields(message));
+            return false;
+        }
+        message.path = [...path, this.iframeId];
+        return true;
+    }
+
+    // 计算下一跳：优先按显式回程 route，其次直接子页面、路由表，最后交给上级页面
+    private resolveNextHop(message: IframeMessage): string | typeof PARENT_HOP | null {
+        const targetId = message.targetId as string;
+        const isChild = (id: string) => id !== this.iframeId && !!this.registeredIframe[id];
+
+        if (Array.isArray(message.route)) {
+            const idx = message.route.indexOf(this.iframeId);
+            const next = idx === -1 ? undefined : message.route[idx + 1];
+            if (next !== undefined) {
+                if (isChild(next)) return next;
+                if (!this.isMainPage() && (this.parentId === null || next === this.parentId)) return PARENT_HOP;
+            }
+        }
+
+        if (isChild(targetId)) return targetId;
+        if (this.routes[targetId]) return this.routes[targetId];
+        if (!this.isMainPage()) return PARENT_HOP;
+        return null;
+    }
+
+    private postToNextHop(message: IframeMessage) {
+        const direct = message.targetId ? this.directPorts.get(message.targetId) : undefined;
+        if (direct) {
+            this.postToPort(direct, message, 'direct');
+            return;
+        }
+        const hop = this.resolveNextHop(message);
+        if (hop === PARENT_HOP) {
+            this.postToParent(message);
+            return;
+        }
+
+        const target = hop ? this.registeredIframe[hop] : undefined;
+        if (target && !target.connected) {
+            this.bufferDelivery(target.id, message);
+            return;
+        }
+        if (target?.port && target.portReady) {
+            this.postToPort(target.port, { ...message, token: target.sessionToken });
+        } else if (target && this.peerWindow(target)) {
+            this.postToWindow(this.peerWindow(target) as WindowProxy, { ...message, token: target.sessionToken }, target.origin);
+        } else {
+            const error = new TargetNotFoundError(message.targetId as string, message.key);
+            this.logger.report('route', error, undefined, this.frameFields(message, message.targetId));
+            // 本页面发出的流无法送达：立即结束，不必等待确认超时
+            if (message.type === 'stream' && message.sourceId === this.iframeId) this.streams.reject(message.streamId || (message.key as string), error);
+        }
+    }
+
+    private postToParent(message: IframeMessage) {
+        // 握手完成前上级页面会丢弃不带令牌的消息，先缓存
+        if (!this.sessionToken && message.type !== 'register') {
+            this.outboundBuffer.push(message);
+            if (this.outboundBuffer.length > MAX_BUFFERED_MESSAGES) this.outboundBuffer.shift();
+            return;
+        }
+        // 注册请求始终经由 window：上级页面重新加载后旧端口已失效
+        if (this.parentPort && message.type !== 'register') {
+            this.postToPort(this.parentPort, { ...message, token: this.sessionToken ?? undefined });
+            return;
+        }
+        // window.parent.postMessage(built, this.origin);
+        const targetOrigin = (typeof window === 'object' && (window as any).__TEST_ENV__) ? '*' : this.origin;
+        this.postToWindow(this.upstreamWindow(), { ...message, token: this.sessionToken ?? undefined }, targetOrigin);
+    }
+
+    // 转发时沿用消息携带的 transfer 列表，保证中继页面也不会复制大对象
+    private postToWindow(target: WindowProxy, message: IframeMessage, targetOrigin: string) {
+        this.traceFrame('out', message, message.targetId);
+        this.tap(message.sourceId === this.iframeId ? 'out' : 'relay', 'window', message);
+        if (message.transfer?.length) {
+            target.postMessage(message, targetOrigin, message.transfer);
+        } else {
+            target.postMessage(message, targetOrigin);
+        }
+    }
+
+    private postToPort(port: MessagePort, message: IframeMessage, transport: 'port' | 'direct' = 'port') {
+        this.traceFrame('out', message, message.targetId);
+        this.tap(message.sourceId === this.iframeId ? 'out' : 'relay', transport, message);
+        port.postMessage(message, message.transfer || []);
+    }
+
+    // 子页面启用上级页面随握手应答转移来的端口，并经由端口发送确认帧，上级页面收到后改用端口发送
+    private bindParentPort(port: MessagePort | null) {
+        if (this.parentPort && this.parentPort !== port) this.parentPort.close();
+        this.parentPort = port;
+        if (!port) return;
+        port.onmessage = (e: MessageEvent) => this.receivePortMessage(null, e);
+        const open = this.createMessage({ targetId: this.parentId || this.defaultMainPageId, data: { op: 'open' } }, 'port');
+        this.postToParent(open);
+    }
+
+    // 专用端口上的入站帧：record 为发来该帧的子页面，null 表示来自上级页面
+    private receivePortMessage(record: RegisteredIframe | null, event: MessageEvent) {
+        const message = event.data as IframeMessage;
+        if (this._destroyed || !message || !message.type) return;
+        const path = Array.isArray(message.path) ? message.path : [];
+        const expected = record ? record.id : (this.parentId || this.defaultMainPageId);
+        if (path[path.length - 1] !== expected || (message.type === 'register' && !message.replyTo)) return;
+        if (record) {
+            if (this.registeredIframe[record.id] !== record || message.token !== record.sessionToken) return;
+            record.portReady = true;
+        }
+        if (this.isHost()) {
+            this.receiveMessage(event, true);
+        } else {
+            void this.handleMessage(message);
+        }
+    }
+
+    // 子页面改用端口后，来自它的 window 帧只可能是伪造或过期的（重新注册请求除外）
+    private expectsPort(message: IframeMessage): boolean {
+        const peerId = this.linkOf(message);
+        const record = peerId ? this.registeredIframe[peerId] : undefined;
+        if (!record?.portReady || (message.type === 'register' && !message.replyTo)) return false;
+        this.logger.warn('transport', `Dropped window message ${message.key} from ${peerId}: page uses a dedicated port`, this.frameFields(message, peerId as string));
+        return true;
+    }
+
+    private closePeerPort(record: RegisteredIframe) {
+        record.port?.close();
+        record.port = null;
+        record.portReady = false;
+        this.dropDirectLinks(record.id);
+    }
+
+    // 直连端口上的入站帧：端口由上级页面分配给双方，只接受对端发给本页面的帧
+    private receiveDirect(peerId: string, event: MessageEvent) {
+        const message = event.data as IframeMessage;
+        if (this._destroyed || !message || !message.type) return;
+        if (message.sourceId !== peerId || message.targetId !== this.iframeId) return;
+        this.tap('in', 'direct', message);
+        if (!this.acceptRoute(message)) return;
+        void this.deliverMessage(message);
+    }
+
+    private handlePortFrame(message: IframeMessage) {
+        const frame = message.data as PortFrame | null;
+        // 直连端口只接受上级页面的分配
+        if (!frame || !frame.peer || message.sourceId !== (this.parentId || this.defaultMainPageId)) return;
+        const existing = this.directPorts.get(frame.peer);
+        if (frame.op === 'close' || frame.op === 'direct') {
+            existing?.close();
+            this.directPorts.delete(frame.peer);
+        }
+        const port = frame.op === 'direct' ? (message.transfer || []).find(isMessagePort) : undefined;
+        if (!port) return;
+        const peer = frame.peer;
+        port.onmessage = (e: MessageEvent) => this.receiveDirect(peer, e);
+        this.directPorts.set(peer, port);
+    }
+
+    // 上级页面为两个已分配专用端口的直接子页面分配直连端口；须双方互相都被策略允许
+    private brokerPort(message: IframeMessage, peerId: string): boolean {
+        const requester = message.sourceId as string;
+        const path = message.path || [];
+        const a = this.registeredIframe[requester];
+        const b = typeof peerId === 'string' ? this.registeredIframe[peerId] : undefined;
+        if (path[path.length - 2] !== requester || !a?.port || !b?.port || a === b || !a.connected || !b.connected) {
+            throw new Error(`Cannot open a direct port between ${requester} and ${peerId}`);
+        }
+        if (this.policy && !(this.policy.canTarget(requester, peerId) && this.policy.canTarget(peerId, requester))) {
+            throw new PermissionDeniedError('forbidden', `${requester} is not allowed to connect to ${peerId}`);
+        }
+        const channel = new MessageChannel();
+        this.sendMessage({ targetId: peerId, data: { op: 'direct', peer: requester } }, { type: 'port', transfer: [channel.port1] });
+        this.sendMessage({ targetId: requester, data: { op: 'direct', peer: peerId } }, { type: 'port', transfer: [channel.port2] });
+        [[requester, peerId], [peerId, requester]].forEach(([from, to]) => {
+            const links = this.directLinks.get(from) || new Set<string>();
+            links.add(to);
+            this.directLinks.set(from, links);
+        });
+        return true;
+    }
+
+    // 子页面断开后通知与其直连的页面关闭端口，之后的帧重新经由上级页面转发
+    private dropDirectLinks(id: string) {
+        const links = this.directLinks.get(id);
+        if (!links) return;
+        this.directLinks.delete(id);
+        links.forEach((peer) => {
+            this.directLinks.get(peer)?.delete(id);
+            this.sendMessage({ targetId: peer, data: { op: 'close', peer: id } }, 'port');
+        });
+    }
+
+    // 向上级页面通告可经由本页面到达的后代页面
+    private announceRoutes(ids: string[]) {
+        if (this.isMainPage() || !ids.length) return;
+        const keys: Record<string, string> = {};
+        ids.forEach((id) => {
+            const key = this.security?.getPeerKey(id);
+            if (key) keys[id] = key;
+        });
+        const data = this.security ? { add: ids, keys } : { add: ids };
+        const announcement = this.createMessage({ targetId: this.parentId || this.defaultMainPageId, data }, 'route');
+        this.postToParent(announcement);
+    }
+
+    // 后代页面被移除后，向上级页面撤回其路由
+    private withdrawRoutes(ids: string[]) {
+        if (this.isMainPage() || !ids.length || !this.sessionToken) return;
+        const announcement = this.createMessage({ targetId: this.parentId || this.defaultMainPageId, data: { remove: ids } }, 'route');
+        this.postToParent(announcement);
+    }
+
+    private handleRouteAnnouncement(message: IframeMessage) {
+        const { sourceId } = message;
+        // 仅接受已注册直接子页面的通告
+        if (!sourceId || sourceId === this.iframeId || !this.registeredIframe[sourceId]) return;
+        const decoded = this.decodeData(message) as { add?: string[]; remove?: string[]; keys?: Record<string, string> } | null;
+        // 只撤回经由该子页面的路由
+        const removed = (decoded?.remove || []).filter((id) => this.routes[id] === sourceId);
+        removed.forEach((id) => delete this.routes[id]);
+        this.withdrawRoutes(removed);
+        const ids = (decoded?.add || []).filter((id) => id !== this.iframeId && !this.registeredIframe[id]);
+        ids.forEach((id) => {
+            this.routes[id] = sourceId;
+            const key = decoded?.keys?.[id];
+            if (this.security && typeof key === 'string') this.security.setPeerKey(id, key);
+        });
+        this.announceRoutes(ids);
+    }
+
+    // 入站消息的去重与时效统计
+    public getMetrics(): ReplayMetrics {
+        return this.replayGuard.getMetrics();
+    }
+
+    /**
+     * 返回当前页面的路由表：可达页面 id => 下一跳直接子页面 id。
+     */
+    public getRoutingTable(): Record<string, string> {
+        const table: Record<string, string> = {};
+        Object.keys(this.registeredIframe).forEach((id) => {
+            if (id !== this.iframeId) table[id] = id;
+        });
+        return { ...this.routes, ...table };
+    }
+
+    // 按消息类型分发已解码的消息
+    private dispatchMessage(message: IframeMessage) {
+        switch (message.type) {
+            case 'request':
+                void this.handleRequest(message);
+                break;
+            case 'response':
+                this.settleRequest(message);
+                break;
+            case 'ping':
+                this.sendMessage({ targetId: message.sourceId, data: message.data, replyTo: message.key }, 'pong');
+                break;
+            case 'pong':
+                this.recordPong(message);
+                break;
+            case 'stream':
+                this.streams.handleFrame(message);
+                break;
+            case 'error':
+                this.handleDenial(message);
+                break;
+            case 'ack':
+                if (message.replyTo) this.outbox.ack(message.replyTo, message.sourceId);
+                break;
+            case 'port':
+                this.handlePortFrame(message);
+                break;
+            case 'disconnect':
+                this.handleUnregistered(message);
+                break;
+            case 'state':
+                if (this.isFromRoot(message)) this.sharedStates.handleFrame(message);
+                break;
+            default:
+                this.emitValidated(message);
+        }
+    }
+
+    // 共享状态只接受主页面发出、经上级页面逐跳转发下来的帧（沿途的 host 不转发来自后代页面的 state 帧）
+    private isFromRoot(message: IframeMessage): boolean {
+        const path = Array.isArray(message.path) ? message.path : [];
+        const mainId = this.defaultMainPageId;
+        if (this.isMainPage() || message.sourceId !== mainId || path[0] !== mainId) return false;
+        return path[path.length - 2] === (this.parentId || mainId) && path[path.length - 1] === this.iframeId;
+    }
+
+    // 有校验器时按其结果回调，同步校验器同步回调以保持派发顺序
+    private validateInbound(validator: Validator | undefined, value: unknown, done: (outcome: ValidationOutcome) => void) {
+        if (!validator) {
+            done({ ok: true, value });
+            return;
+        }
+        const outcome = runValidator(validator, value);
+        if (outcome instanceof Promise) {
+            void outcome.then((result) => {
+                if (!this._destroyed) done(result);
+            });
+        } else {
+            done(outcome);
+        }
+    }
+
+    // 未通过 validators.events 校验的用户消息在到达监听器前丢弃
+    private emitValidated(message: IframeMessage) {
+        const validator = message.type === 'message' && message.event ? this.validators.events?.[message.event] : undefined;
+        this.validateInbound(validator, message.data, (outcome) => {
+            if (outcome.ok) {
+                this.emitMessage(validator ? { ...message, data: outcome.value } : message);
+                return;
+            }
+            const { message: reason } = new ValidationError(message.event as string, outcome.issues);
+            this.logger.warn('validation', `Dropped message ${message.key} from ${message.sourceId}: ${reason}`, this.frameFields(message));
+        });
+    }
+
+    // 记录直接子页面（上一跳）最近一次发来消息的时间
+    private touchPeer(message: IframeMessage) {
+        const path = Array.isArray(message.path) ? message.path : [];
+        const record = this.registeredIframe[path[path.length - 1]];
+        if (record && record.id !== this.iframeId) record.lastSeen = Date.now();
+    }
+
+    private startHeartbeat() {
+        if (this.heartbeatInterval === null || !this.isHost() || this.heartbeatTimer) return;
+        this.heartbeatTimer = setInterval(() => this.beat(), this.heartbeatInterval);
+    }
+
+    private stopHeartbeat() {
+        if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+        this.heartbeatTimer = null;
+    }
+
+    // 上一次 ping 仍未收到 pong 则计为一次丢失，连续丢失达到阈值判定超时
+    private beat() {
+        Object.keys(this.registeredIframe).forEach((id) => {
+            const record = this.registeredIframe[id];
+            if (id === this.iframeId || !record.connected) return;
+
+            if (record.pendingPing) {
+                record.missedBeats += 1;
+                if (record.missedBeats >= this.maxMissedBeats) {
+                    record.pendingPing = null;
+                    this.emitPeerEvent('peer:timeout', id, { missedBeats: record.missedBeats, lastSeen: record.lastSeen });
+                    this.markDisconnected(id, 'timeout');
+                    return;
+                }
+            }
+
+            const ping = this.createMessage({ targetId: id, data: { sentAt: Date.now() } }, 'ping');
+            record.pendingPing = ping.key as string;
+            this.sendMessage(ping, 'ping');
+        });
+    }
+
+    private recordPong(message: IframeMessage) {
+        const record = message.sourceId ? this.registeredIframe[message.sourceId] : undefined;
+        if (!record || !record.pendingPing || record.pendingPing !== message.replyTo) return;
+        const sentAt = (message.data as { sentAt?: number } | null)?.sentAt;
+        record.pendingPing = null;
+        record.missedBeats = 0;
+        record.latency = typeof sentAt === 'number' ? Date.now() - sentAt : null;
+        record.lastSeen = Date.now();
+    }
+
+    /**
+     * 返回直接子页面的存活状态；需开启 heartbeat 才会更新 latency 与 missedBeats。
+     */
+    public getPeerStatus(id: string): PeerStatus | undefined {
+        const record = this.registeredIframe[id];
+        if (!record || id === this.iframeId) return undefined;
+        return {
+            id,
+            connected: record.connected,
+            lastSeen: record.lastSeen,
+            latency: record.latency,
+            missedBeats: record.missedBeats,
+        };
+    }
+
+    private toPeerInfo(record: RegisteredIframe): PeerInfo {
+        return {
+            id: record.id,
+            origin: record.origin,
+            iframe: record.iframe,
+            window: this.peerWindow(record),
+            registeredAt: record.registeredAt,
+            lastSeen: record.lastSeen,
+            connected: record.connected,
+            groups: [...record.groups],
+            capabilities: [...record.capabilities],
+            metadata: { ...record.metadata },
+        };
+    }
+
+    /**
+     * 返回本页面注册表中的直接子页面（不含自身），包括已断开、等待重新注册的页面。
+     */
+    public getPeers(): PeerInfo[] {
+        return Object.keys(this.registeredIframe)
+            .filter((id) => id !== this.iframeId)
+            .map((id) => this.toPeerInfo(this.registeredIframe[id]));
+    }
+
+    public getPeer(id: string): PeerInfo | undefined {
+        const record = this.registeredIframe[id];
+        return record && id !== this.iframeId ? this.toPeerInfo(record) : undefined;
+    }
+
+    // 配置了访问控制策略时，查询方只能看到自身与策略允许其发消息的页面；iframe 元素与窗口无法跨页面传递
+    private listPeersFor(requester: string): PeerInfo[] {
+        return this.getPeers()
+            .filter((peer) => !this.policy || peer.id === requester || this.policy.canTarget(requester, peer.id))
+            .map((peer) => ({ ...peer, iframe: null, window: null }));
+    }
+
+    /**
+     * 向上级页面查询其注册表，即本页面与同级页面；结果中的 iframe 均为 null，且按上级页面的访问控制策略过滤。
+     * 主页面直接返回 getPeers()。
+     */
+    public async queryPeers(): Promise<PeerInfo[]> {
+        if (this.isMainPage()) return this.getPeers();
+        await this.ready;
+        return this.invoke<PeerInfo[]>(this.parentId || this.defaultMainPageId, PEER_LIST_METHOD);
+    }
+
+    /**
+     * 从注册表中移除直接子页面并通知它，之后发往它的消息不再缓冲；子页面的会话随之失效，不会自动重新注册。
+     * 同时撤销对该 id 的 attach() 声明。返回该页面是否存在。绑定的 iframe 元素离开文档时会自动移除，无需调用。
+     */
+    public unregister(id: string): boolean {
+        const record = this.registeredIframe[id];
+        if (id === this.iframeId) return false;
+        this.dropAttachment(id, new Error(`Page ${id} was unregistered`));
+        if (!record) return false;
+        if (record.connected) this.sendMessage({ targetId: id, data: { reason: 'unregistered' } }, 'disconnect');
+        this.removePeer(record, 'unregistered');
+        return true;
+    }
+
+    /**
+     * 预先声明子页面：target 为 iframe 元素、window.open 返回的窗口，或 CSS 选择器（元素出现后再绑定，可匹配
+     * open shadow root 内的元素；closed shadow root 内的 iframe 须直接传入元素）。之后 id 为 options.id 的注册请求
+     * 须来自该窗口及 options.origin，否则拒绝。返回的 Promise 在该页面完成注册后 resolve，
+     * 在此之前被 unregister()、再次 attach() 或直接传入的元素离开文档时 reject。
+     * 弹出窗口中的子页面须显式传入 type: 'iframe'，其上级页面为 window.opener。
+     */
+    public attach(target: AttachTarget, options: AttachOptions): Promise<PeerInfo> {
+        if (!this.isHost()) throw new Error('Only main page or host bridge can attach pages');
+        const { id, origin } = options || ({} as AttachOptions);
+        if (!id || id === this.iframeId) throw new Error('attach() requires the id of a child page');
+        if (typeof origin !== 'string' || !origin) throw new Error('attach() requires the origin of the page, or "*"');
+        if (typeof target === 'string') {
+            document.querySelector(target); // 选择器无效时在此抛出
+        } else if (!(target instanceof HTMLIFrameElement) && !isWindow(target)) {
+            throw new Error('attach() target must be an iframe element, a window or a selector');
+        }
+
+        this.dropAttachment(id, new Error(`Attachment of ${id} was replaced`));
+        let resolve!: (peer: PeerInfo) => void;
+        let reject!: (reason: unknown) => void;
+        const attached = new Promise<PeerInfo>((res, rej) => {
+            resolve = res;
+            reject = rej;
+        });
+        attached.catch(() => undefined);
+        const attachment: Attachment = { id, origin, target, element: target instanceof HTMLIFrameElement ? target : null, resolve, reject };
+        this.attachments.set(id, attachment);
+        this.observeDom();
+        const roots = collectRoots();
+        if (attachment.element) this.watchFrame(attachment.element);
+        else if (typeof target === 'string') this.watchRoots(roots);
+        this.refreshAttachment(attachment, roots);
+
+        // 已注册的页面：匹配时补上元素绑定，否则撤销声明
+        const record = this.registeredIframe[id];
+        if (record && this.attachments.get(id) === attachment) {
+            if (this.checkAttachment(attachment, record.window, record.origin)) {
+                this.dropAttachment(id, new Error(`Page ${id} is registered from a different window or origin`));
+            } else {
+                if (!record.iframe) this.bindFrame(record, attachment.element);
+                resolve(this.toPeerInfo(record));
+            }
+        }
+        return attached;
+    }
+
+    // channel 优先取用户层 event 字段，否则退回消息类型
+    private getChannel(message: IframeMessage): string {
+        return message.event || message.type || 'message';
+    }
+
+    // 支持 '*'（全部）与 'prefix:*'（前缀）两种通配
+    private matchChannel(pattern: string, channel: string): boolean {
+        if (pattern === WILDCARD_CHANNEL || pattern === channel) return true;
+        if (pattern.endsWith(WILDCARD_CHANNEL)) {
+            return channel.startsWith(pattern.slice(0, -WILDCARD_CHANNEL.length));
+        }
+        return false;
+    }
+
+    private emitMessage(message: IframeMessage) {
+        const channel = this.getChannel(message);
+        const matched: Array<[string, ListenerEntry]> = [];
+        this.listeners.forEach((entries, pattern) => {
+            if (!this.matchChannel(pattern, channel)) return;
+            entries.forEach((entry) => matched.push([pattern, entry]));
+        });
+
+        for (const [pattern, entry] of matched) {
+            if (entry.once) this.removeListenerEntry(pattern, entry);
+            try {
+                entry.handler(message);
+            } catch (err) {
+                this.logger.report('listener', err, `Listener for "${pattern}" threw`, this.frameFields(message));
+            }
+        }
+    }
+
+    private addListener(channel: string, handler: MessageListener, once: boolean): () => void {
+        if (typeof handler !== 'function') {
+            throw new Error('listener must be a function');
+        }
+        const entry: ListenerEntry = { handler, once };
+        let entries = this.listeners.get(channel);
+        if (!entries) {
+            entries = new Set();
+            this.listeners.set(channel, entries);
+        }
+        entries.add(entry);
+        try {
+            this.onMessageCallbackReady();
+        } catch {
+            /* ignore */
+        }
+        return () => this.removeListenerEntry(channel, entry);
+    }
+
+    private removeListenerEntry(channel: string, entry: ListenerEntry) {
+        const entries = this.listeners.get(channel);
+        if (!entries) return;
+        entries.delete(entry);
+        if (!entries.size) this.listeners.delete(channel);
+    }
+
+    private async handleRequest(message: IframeMessage) {
+        const { method = '', sourceId, key } = message;
+        if (!sourceId || !key) return;
+
+        let payload: ResponsePayload;
+        const handler = this.requestHandlers.get(method);
+        if (!handler) {
+            payload = { ok: false, error: { name: 'Error', message: `No handler registered for method "${method}"` } };
+        } else {
+            try {
+                const validator = this.validators.methods?.[method]?.params;
+                const outcome = validator ? await runValidator(validator, message.data) : { ok: true as const, value: message.data };
+                if (!outcome.ok) throw new ValidationError(`${method}(params)`, outcome.issues);
+                const result = await handler(outcome.value, message);
+                payload = { ok: true, result };
+            } catch (err) {
+                payload = { ok: false, error: serializeError(err) };
+            }
+        }
+
+        if (this._destroyed) return;
+        // 沿请求的 path 原路返回
+        const route = [...(message.path || [])].reverse();
+        this.sendMessage({ targetId: sourceId, data: payload, method, replyTo: key, route }, 'response');
+    }
+
+    private settleRequest(message: IframeMessage) {
+        const pending = message.replyTo ? this.pendingRequests.get(message.replyTo) : undefined;
+        if (!pending) return;
+        this.pendingRequests.delete(message.replyTo as string);
+        if (pending.timer) clearTimeout(pending.timer);
+        this.logger.debug('request', `Response to "${pending.method}" received`, {
+            peerId: message.sourceId, key: message.replyTo, latency: Date.now() - pending.startedAt,
+        });
+
+        const payload = message.data as ResponsePayload | null;
+        if (payload && payload.ok === false) {
+            pending.reject(new RemoteError(payload.error));
+            return;
+        }
+        this.validateInbound(this.validators.methods?.[pending.method]?.result, payload?.result, (outcome) => {
+            if (outcome.ok) {
+                pending.resolve(outcome.value);
+            } else {
+                pending.reject(new ValidationError(`${pending.method}(result)`, outcome.issues));
+            }
+        });
+    }
+
+    /**
+     * 创建（或在子页面中镜像）名为 name 的共享状态。主页面持有权威副本，修改后以 patch 广播给全部页面；
+     * 子页面在握手应答中拿到快照，set() 向主页面提议修改，由 options.approve 审批，版本号用于解决并发冲突。
+     */
+    public createSharedState<T>(name: string, initial: T, options: SharedStateOptions<T> = {}): SharedState<T> {
+        if (this._destroyed) {
+            throw new Error('IframeBridge has been destroyed');
+        }
+        return this.sharedStates.create(name, initial, options);
+    }
+
+    /**
+     * 请求上级页面分配与另一个子页面（同一上级页面的直接子页面）的直连端口，之后发往该页面的帧不再经由上级页面转发。
+     * 双方都须已启用专用端口；上级页面配置了访问策略时须允许双方互相发送。
+     */
+    public async connectPeer(peerId: string): Promise<void> {
+        if (this.isMainPage()) throw new Error('The main page cannot open direct ports');
+        if (this.directPorts.has(peerId)) return;
+        await this.ready;
+        if (!this.parentPort) throw new Error('Direct ports require a dedicated port to the host');
+        await this.invoke(this.parentId || this.defaultMainPageId, PORT_BROKER_METHOD, peerId);
+    }
+
+    /**
+     * 注册中间件，返回移除函数。同一方向的钩子按注册顺序执行，同一方向的消息串行处理、保持原有顺序；
+     * 只作用于 message / request / response 帧，流的控制帧不经过中间件。
+     * - outbound：本页面发出的帧，在编码、签名/加密之前执行，data 为原始值；拒绝时 sendMessage / request 以该错误拒绝。
+     * - inbound：发往本页面的帧，在来源与会话令牌校验、验签/解密、去重与解码之后，派发给监听器与请求处理函数之前执行。
+     * - relay：经本页面转发的帧，在路由与访问控制策略检查之后、发往下一跳之前执行，data 为编码后的形式（加密时为密文）。
+     * inbound / relay 拒绝时错误交给 onError，被拒绝的请求以错误响应回复发送方。
+     */
+    public use(middleware: Middleware): () => void {
+        return this.middleware.use(middleware);
+    }
+
+    /**
+     * 开启流量记录并返回记录器：之后经过本页面的每一帧（收到、发出与转发）连同解码后的 data 与时间信息
+     * 保存在环形缓冲中，可导出为 JSON、挂载调试面板。已开启时返回同一个记录器，options 被忽略。
+     */
+    public inspect(options: InspectorOptions = {}): TrafficInspector {
+        if (!this.inspector) {
+            this.inspector = new TrafficInspector({
+                selfId: () => this.iframeId,
+                peers: () => Object.keys(this.registeredIframe)
+                    .map((id) => this.getPeerStatus(id))
+                    .filter((status): status is PeerStatus => !!status),
+                peek: (message) => this.peekData(message),
+            }, options);
+        }
+        return this.inspector;
+    }
+
+    /**
+     * 把录制的入站帧（发往录制页面的部分）按顺序派发给本页面，跳过会话、来源与去重检查，用于在测试中复现问题。
+     * 回放的请求照常回复，原发送方不存在时响应被丢弃。返回回放的帧数。
+     */
+    public async replay(recording: TrafficRecording | string, options: ReplayOptions = {}): Promise<number> {
+        const { bridgeId, entries } = typeof recording === 'string' ? parseRecording(recording) : recording;
+        const types = options.types ?? DEFAULT_REPLAY_TYPES;
+        const speed = options.speed ?? 0;
+        let previous: number | null = null;
+        let count = 0;
+        for (const entry of entries) {
+            if (entry.direction !== 'in' || !types.includes(entry.type as MessageType)) continue;
+            if (entry.targetId !== bridgeId && entry.targetId !== BROADCAST_TARGET) continue;
+            if (speed > 0 && previous !== null) {
+                // eslint-disable-next-line no-await-in-loop
+                await new Promise((resolve) => setTimeout(resolve, (entry.time - previous!) / speed));
+            }
+            previous = entry.time;
+            if (this._destroyed) break;
+            const { type, key, sourceId, event, method, replyTo, streamId, path, data } = entry;
+            this.dispatchMessage({
+                type, key, sourceId, targetId: this.iframeId, event, method, replyTo, streamId, path: [...path], data, timestamp: Date.now(),
+            });
+            count += 1;
+        }
+        return count;
+    }
+
+    /**
+     * 以 name 公开对象，对端通过 remote(本页面 id, name) 调用其方法（含嵌套属性上的方法）。
+     * 返回取消公开的函数。
+     */
+    public expose(name: string, target: object): () => void {
+        return this.remoteObjects.expose(name, target);
+    }
+
+    /**
+     * 返回对端以 name 公开的对象的代理：方法调用转为请求并返回 Promise，对端抛出的错误以 RemoteError 带回。
+     * 参数中的函数以引用传递，对端调用时回调本页面。
+     */
+    public remote<T>(peerId: string, name: string): Remote<T> {
+        return this.remoteObjects.remote<T>(peerId, name);
+    }
+
+    // 释放对端传来的函数引用；未显式释放的引用在被垃圾回收后自动释放
+    public release(fn: unknown) {
+        this.remoteObjects.release(fn);
+    }
+
+    /**
+     * 向目标页面发起请求，返回的 Promise 由目标页面 handle() 注册的处理函数结果决定。
+     * 请求消息的 key 即关联 id，response 消息通过 replyTo 回传。
+     */
+    public request<M extends MethodName<S>>(targetId: string, method: M, ...args: RequestArgs<MethodParams<S, M>>): Promise<MethodResult<S, M>>;
+    public request<T = unknown>(targetId: string, method: LooseName<MethodName<S>>, params?: unknown, options?: RequestOptions): Promise<T>;
+    public request(targetId: string, method: string, params?: unknown, options?: RequestOptions): Promise<unknown> {
+        return this.invoke(targetId, method, params, options);
+    }
+
+    private invoke<T = unknown>(targetId: string, method: string, params?: unknown, options: RequestOptions = {}): Promise<T> {
+        if (this._destroyed) {
+            return Promise.reject(new Error('IframeBridge has been destroyed'));
+        }
+        if (targetId === this.iframeId) {
+            return Promise.reject(new Error('Cannot send a request to itself'));
+        }
+
+        const timeout = options.timeout ?? this.requestTimeout;
+        const built = this.createMessage({ targetId, data: params, method, transfer: options.transfer }, 'request');
+        const key = built.key as string;
+
+        return new Promise<T>((resolve, reject) => {
+            const timer = timeout > 0
+                ? setTimeout(() => {
+                    this.pendingRequests.delete(key);
+                    reject(new RequestTimeoutError(method, targetId, timeout));
+                }, timeout)
+                : null;
+            this.pendingRequests.set(key, { method, resolve: resolve as (value: unknown) => void, reject, timer, startedAt: Date.now() });
+            this.sendMessage(built, 'request').catch((err) => {
+                // 被出站中间件拒绝
+                if (!this.pendingRequests.delete(key)) return;
+                if (timer) clearTimeout(timer);
+                reject(err);
+            });
+        });
+    }
+
+    /**
+     * 分片发送大数据：source 可为 ReadableStream、(异步)可迭代对象，字符串与二进制按 chunkSize 切分，
+     * 二进制分片以 transfer 方式发送。接收方在 on(event || 'stream') 中拿到 IncomingStream，
+     * 按序重组后通过 ReadableStream 读取；发送方在未确认分片达到 window 时暂停（背压）。
+     */
+    public sendStream(targetId: string, source: StreamSource, options: StreamOptions = {}): OutgoingStream {
+        if (this._destroyed) {
+            throw new Error('IframeBridge has been destroyed');
+        }
+        if (targetId === this.iframeId) {
+            throw new Error('Cannot send a stream to itself');
+        }
+        return this.streams.send(targetId, source, { ...options, timeout: options.timeout ?? this.requestTimeout });
+    }
+
+    /**
+     * 注册 request 处理函数，返回值（或抛出的错误）会自动回传给请求方。
+     * 返回取消注册的函数。
+     */
+    public handle<M extends MethodName<S>>(
+        method: M,
+        handler: (params: MethodParams<S, M>, message: IframeMessage) => MethodResult<S, M> | Promise<MethodResult<S, M>>,
+    ): () => void;
+    public handle(method: LooseName<MethodName<S>>, handler: RequestHandler): () => void;
+    public handle(method: string, handler: (params: never, message: IframeMessage) => unknown): () => void {
+        if (typeof handler !== 'function') {
+            throw new Error('handle handler must be a function');
+        }
+        // 参数类型由重载签名约束，注册表中统一按 RequestHandler 存放
+        const entry = handler as RequestHandler;
+        this.requestHandlers.set(method, entry);
+        return () => {
+            if (this.requestHandlers.get(method) === entry) this.requestHandlers.delete(method);
+        };
+    }
+
+    /**
+     * 订阅指定 channel 的消息，channel 为消息的 event 字段（未设置时为消息类型）。
+     * 支持 '*' 与 'prefix:*' 通配，返回取消订阅的函数。
+     */
+    public on<E extends EventName<S>>(channel: E, handler: (msg: TypedMessage<EventData<S, E>>) => void): () => void;
+    public on(channel: SystemChannel | LooseName<EventName<S>>, handler: MessageListener): () => void;
+    public on(channel: string, handler: (msg: never) => void): () => void {
+        return this.addListener(channel, handler as MessageListener, false);
+    }
+
+    public once<E extends EventName<S>>(channel: E, handler: (msg: TypedMessage<EventData<S, E>>) => void): () => void;
+    public once(channel: SystemChannel | LooseName<EventName<S>>, handler: MessageListener): () => void;
+    public once(channel: string, handler: (msg: never) => void): () => void {
+        return this.addListener(channel, handler as MessageListener, true);
+    }
+
+    // 未传 handler 时移除该 channel 下全部监听器
+    public off(channel: string, handler?: MessageListener) {
+        const entries = this.listeners.get(channel);
+        if (!entries) return;
+        if (!handler) {
+            this.listeners.delete(channel);
+            return;
+        }
+        entries.forEach((entry) => {
+            if (entry.handler === handler) this.removeListenerEntry(channel, entry);
+        });
+    }
+
+    // 向目标页面发送指定 event 的消息
+    public send<E extends EventName<S>>(targetId: MessageTarget, event: E, ...[data]: PayloadArgs<EventData<S, E>>): void;
+    public send(targetId: MessageTarget, event: LooseName<EventName<S>>, data?: unknown): void;
+    public send(targetId: MessageTarget, event: string, data?: unknown) {
+        this.sendMessage({ targetId, event, data }, 'message');
+    }
+
+    // 兼容旧 API：等价于 on('*', callback)
+    public onMessage(callback: MessageListener): () => void {
+        if (typeof callback !== 'function') {
+            throw new Error('onMessage callback must be a function');
+        }
+        return this.on(WILDCARD_CHANNEL, callback);
+    }
+
+    public destroy() {
+        if (this._destroyed) return;
+        this._destroyed = true;
+
+        try {
+            window.removeEventListener('message', this._handleWindowMessage, false);
+            window.removeEventListener('pagehide', this._handlePageHide, false);
+            if (this._autoDestroy) {
+                window.removeEventListener('beforeunload', this._handleWindowUnload, false);
+                window.removeEventListener('unload', this._handleWindowUnload, false);
+            }
+        } catch (err) { /* ignore */ }
+
+        this.rejectReady(new Error('IframeBridge has been destroyed'));
+        this.sessionToken = null;
+        this.stopRegisterRetry();
+        this.stopHeartbeat();
+        this.outboundBuffer.length = 0;
+        this.pendingDeliveries = {};
+
+        // 拒绝所有未完成的请求
+        this.pendingRequests.forEach((pending) => {
+            if (pending.timer) clearTimeout(pending.timer);
+            pending.reject(new Error('IframeBridge has been destroyed'));
+        });
+        this.pendingRequests.clear();
+        this.requestHandlers.clear();
+        this.streams.destroy();
+        this.outbox.destroy();
+        this.sharedStates.destroy();
+        this.remoteObjects.destroy();
+        this.inspector?.destroy();
+        this.inspector = null;
+        this.middleware.clear();
+        this.parentPort?.close();
+        this.parentPort = null;
+        this.directPorts.forEach((port) => port.close());
+        this.directPorts.clear();
+        this.directLinks.clear();
+        this.domObserver?.disconnect();
+        this.domObserver = null;
+        this.attachments.forEach((attachment) => attachment.reject(new Error('IframeBridge has been destroyed')));
+        this.attachments.clear();
+
+        // 清理引用
+        this.listeners.clear();
+        this.messageQueue.clear();
+        this.registerQueue.clear();
+        this.replayGuard.clear();
+        this.rateBuckets.clear();
+        this.throttleReports.clear();
+        this.routes = {};
+        Object.keys(this.registeredIframe).forEach(k => {
+            const rec = this.registeredIframe[k];
+            if (rec) {
+                this.unbindLoadListener(rec);
+                rec.port?.close();
+                rec.iframe = null;
+                rec.window = null;
+            }
             delete this.registeredIframe[k];
         });
 
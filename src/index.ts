@@ -1,3 +1,96 @@
-export type { IframeBridgeOptions, IframeMessage } from './type';
+export type {
+    IframeBridgeOptions,
+    IframeMessage,
+    MessageListener,
+    MessageTarget,
+    OutgoingMessage,
+    BroadcastOptions,
+    RequestOptions,
+    SendOptions,
+    RequestHandler,
+    SerializedError,
+    HandshakeRequest,
+    HandshakeResult,
+    HandshakeReply,
+    LifecycleEvent,
+    PeerStatus,
+    PeerInfo,
+    PeerRemovalReason,
+    AttachTarget,
+    AttachOptions,
+    StreamOptions,
+    StreamProgress,
+    OutgoingStream,
+    IncomingStream,
+    OriginMatcher,
+    SecurityViolation,
+    SecurityViolationReason,
+    SecurityMode,
+    MessageSeal,
+    ReplayMetrics,
+    AccessPolicy,
+    PeerPolicy,
+    PolicyDenial,
+    OverflowPolicy,
+    ThrottleReason,
+    DeliveryErrorCode,
+    BridgeSchema,
+    UntypedSchema,
+    TypedMessage,
+    EventName,
+    EventData,
+    MethodName,
+    MethodParams,
+    MethodResult,
+    SystemChannel,
+    StandardSchema,
+    StandardIssue,
+    StandardResult,
+    Validator,
+    SharedState,
+    SharedStateOptions,
+    SharedStateErrorCode,
+    StateChange,
+    StatePatch,
+    StatePatchOp,
+    StateSnapshot,
+    Remote,
+    LogLevel,
+    LogRecord,
+    Logger,
+    InspectorOptions,
+    TrafficDirection,
+    TrafficEntry,
+    TrafficRecording,
+    ReplayOptions,
+    Middleware,
+    MiddlewareContext,
+    MiddlewareDirection,
+    MiddlewareHook,
+} from './type';
+export type { StreamSource } from './stream';
+export type { Infer } from './schema';
+export type { TrafficInspector } from './inspector';
+export type { Codec } from './codec';
+export { registerCodec, structuredCodec, jsonCodec, base64JsonCodec, extendedJsonCodec } from './codec';
+export {
+    DecodeError,
+    DeliveryError,
+    DuplicateRegistrationError,
+    HandshakeError,
+    OriginRejectedError,
+    PermissionDeniedError,
+    RemoteError,
+    RequestTimeoutError,
+    SharedStateError,
+    StreamCancelledError,
+    TargetNotFoundError,
+    ValidationError,
+} from './errors';
+export { consoleLogger } from './logger';
+export { parseRecording } from './inspector';
+export { v } from './schema';
+export { matchOrigin } from './origin';
+export { PROTOCOL_VERSION, MIN_PROTOCOL_VERSION } from './handshake';
 
 export { IframeBridge as default } from './iframe-bridge';
@@ -0,0 +1,169 @@
+import type { IframeMessage, InspectorOptions, PeerStatus, TrafficDirection, TrafficEntry, TrafficRecording } from './type';
+import { extendedJsonCodec } from './codec';
+import { estimateSize } from './policy';
+
+const DEFAULT_BUFFER_SIZE = 500;
+// 面板中保留的最近帧数
+const PANEL_ROWS = 100;
+const ARROWS: Record<TrafficDirection, string> = { in: '←', out: '→', relay: '⇄' };
+
+export interface InspectorSource {
+    selfId(): string;
+    peers(): PeerStatus[];
+    peek(message: IframeMessage): unknown; // 解码 data，无法解码时返回原值
+}
+
+type EntryListener = (entry: TrafficEntry) => void;
+
+// 以扩展 JSON 往返一次：与导出格式一致，且不受之后的修改或 transfer 转移影响
+function snapshot(data: unknown): unknown {
+    try {
+        return extendedJsonCodec.decode(extendedJsonCodec.encode(data));
+    } catch {
+        return String(data);
+    }
+}
+
+function describeEntry(entry: TrafficEntry): string {
+    const name = entry.event || (entry.method ? `${entry.method}()` : '');
+    return `${ARROWS[entry.direction]} ${entry.type} ${entry.sourceId} → ${entry.targetId}${name ? ` ${name}` : ''} ${entry.size}B`;
+}
+
+export function parseRecording(json: string): TrafficRecording {
+    const recording = extendedJsonCodec.decode(json) as TrafficRecording | null;
+    if (!recording || recording.version !== 1 || !Array.isArray(recording.entries)) {
+        throw new Error('Invalid traffic recording');
+    }
+    return recording;
+}
+
+/**
+ * 记录经过本页面的每一帧（收到、发出与转发），保存在环形缓冲中，可导出为 JSON 供 replay() 回放。
+ */
+export class TrafficInspector {
+    private source: InspectorSource;
+    private size: number;
+    private payloads: boolean;
+    private buffer: TrafficEntry[] = [];
+    private seq = 0;
+    private startedAt = Date.now();
+    private listeners: Set<EntryListener> = new Set();
+    private panels: Set<() => void> = new Set();
+
+    constructor(source: InspectorSource, options: InspectorOptions = {}) {
+        this.source = source;
+        this.size = options.size && options.size > 0 ? options.size : DEFAULT_BUFFER_SIZE;
+        this.payloads = options.payloads !== false;
+    }
+
+    // 由 IframeBridge 在帧进出时调用
+    public record(direction: TrafficDirection, transport: TrafficEntry['transport'], message: IframeMessage) {
+        const time = Date.now();
+        const { type, key, sourceId, targetId, event, method, replyTo, streamId } = message;
+        const entry: TrafficEntry = {
+            seq: ++this.seq,
+            time,
+            direction,
+            transport,
+            type,
+            key,
+            sourceId,
+            targetId,
+            ...(event !== undefined ? { event } : {}),
+            ...(method !== undefined ? { method } : {}),
+            ...(replyTo !== undefined ? { replyTo } : {}),
+            ...(streamId !== undefined ? { streamId } : {}),
+            path: Array.isArray(message.path) ? [...message.path] : [],
+            size: estimateSize(message.data),
+            ...(direction === 'in' && typeof message.timestamp === 'number' ? { latency: time - message.timestamp } : {}),
+            ...(this.payloads ? { data: snapshot(this.source.peek(message)) } : {}),
+        };
+        this.buffer.push(entry);
+        if (this.buffer.length > this.size) this.buffer.shift();
+        this.listeners.forEach((listener) => {
+            try {
+                listener(entry);
+            } catch {
+                /* ignore */
+            }
+        });
+    }
+
+    public entries(): TrafficEntry[] {
+        return [...this.buffer];
+    }
+
+    public clear() {
+        this.buffer = [];
+    }
+
+    // 订阅之后记录的帧，返回取消订阅的函数
+    public subscribe(listener: EntryListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    public export(): string {
+        const recording: TrafficRecording = {
+            version: 1,
+            bridgeId: this.source.selfId(),
+            startedAt: this.startedAt,
+            entries: this.entries(),
+        };
+        return extendedJsonCodec.encode(recording) as string;
+    }
+
+    /**
+     * 在页面上挂载简易面板：上方为已注册的页面，下方为最近的帧。返回卸载函数。
+     * 内容只经由 textContent 写入，载荷中的 HTML 不会被解析。
+     */
+    public mount(container: HTMLElement = document.body): () => void {
+        const doc = container.ownerDocument;
+        const panel = doc.createElement('div');
+        panel.setAttribute('data-iframe-bridge-inspector', this.source.selfId());
+        panel.style.cssText = 'position:fixed;right:0;bottom:0;z-index:2147483647;width:420px;max-height:40vh;overflow:auto;'
+            + 'background:#111;color:#ddd;font:12px/1.4 monospace;padding:6px;opacity:.92';
+        const peers = doc.createElement('ul');
+        const traffic = doc.createElement('ol');
+        panel.appendChild(peers);
+        panel.appendChild(traffic);
+
+        const renderPeers = () => {
+            peers.textContent = '';
+            this.source.peers().forEach((peer) => {
+                const item = doc.createElement('li');
+                item.textContent = `${peer.id} ${peer.connected ? 'connected' : 'disconnected'}${peer.latency === null ? '' : ` ${peer.latency}ms`}`;
+                peers.appendChild(item);
+            });
+        };
+        const append = (entry: TrafficEntry) => {
+            const row = doc.createElement('li');
+            row.textContent = describeEntry(entry);
+            traffic.appendChild(row);
+            while (traffic.childElementCount > PANEL_ROWS) traffic.firstElementChild?.remove();
+        };
+
+        renderPeers();
+        this.buffer.slice(-PANEL_ROWS).forEach(append);
+        const unsubscribe = this.subscribe((entry) => {
+            append(entry);
+            // 注册与断开都会产生帧，随之刷新页面列表
+            renderPeers();
+        });
+        container.appendChild(panel);
+
+        const unmount = () => {
+            unsubscribe();
+            panel.remove();
+            this.panels.delete(unmount);
+        };
+        this.panels.add(unmount);
+        return unmount;
+    }
+
+    public destroy() {
+        this.panels.forEach((unmount) => unmount());
+        this.listeners.clear();
+        this.buffer = [];
+    }
+}
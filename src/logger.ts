@@ -0,0 +1,136 @@
+import type { LogLevel, LogRecord, Logger } from './type';
+
+type RecordLevel = LogRecord['level'];
+
+// 调用方可填写的结构化字段
+export type LogFields = Partial<Pick<LogRecord, 'peerId' | 'key' | 'direction' | 'type' | 'size' | 'latency' | 'error'>>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+const PREFIX = 'iframe-bridge';
+
+// 默认输出到 console，记录对象作为第二个参数便于在控制台展开
+export const consoleLogger: Logger = {
+    // eslint-disable-next-line no-console
+    debug: (message, record) => console.debug(`[${PREFIX}:${record.namespace}] ${message}`, record),
+    // eslint-disable-next-line no-console
+    info: (message, record) => console.info(`[${PREFIX}:${record.namespace}] ${message}`, record),
+    // eslint-disable-next-line no-console
+    warn: (message, record) => console.warn(`[${PREFIX}:${record.namespace}] ${message}`, record),
+    // eslint-disable-next-line no-console
+    error: (message, record) => console.error(`[${PREFIX}:${record.namespace}] ${message}`, record),
+};
+
+function toPattern(entry: string): RegExp {
+    const name = entry.startsWith(`${PREFIX}:`) ? entry.slice(PREFIX.length + 1) : entry;
+    const source = name.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`);
+}
+
+// 解析 debug 选项：'transport,handshake'、'*,-transport' 等，与 debug 库的写法一致
+function parseNamespaces(spec: boolean | string | undefined): (namespace: string) => boolean {
+    if (!spec) return () => false;
+    if (spec === true) return () => true;
+    const include: RegExp[] = [];
+    const exclude: RegExp[] = [];
+    spec.split(/[\s,]+/).filter(Boolean).forEach((entry) => {
+        if (entry.startsWith('-')) exclude.push(toPattern(entry.slice(1)));
+        else include.push(toPattern(entry));
+    });
+    return (namespace) => !exclude.some((re) => re.test(namespace)) && include.some((re) => re.test(namespace));
+}
+
+export interface ScopedLogger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+    report(error: unknown, message?: string, fields?: LogFields): void;
+}
+
+export interface BridgeLoggerOptions {
+    logger?: Logger;
+    level?: LogLevel;
+    debug?: boolean | string;
+    onError?: (error: Error, record: LogRecord) => void;
+}
+
+/**
+ * 桥内所有输出的出口：按级别与调试命名空间过滤后生成结构化记录交给 logger，
+ * report() 额外把错误转交 onError。调试记录只受 debug 选项控制，不受 level 限制。
+ */
+export class BridgeLogger {
+    private logger: Logger;
+    private level: number;
+    private debugNamespaces: (namespace: string) => boolean;
+    private onError?: BridgeLoggerOptions['onError'];
+    private bridgeId: () => string;
+
+    constructor(options: BridgeLoggerOptions, bridgeId: () => string) {
+        this.logger = options.logger || consoleLogger;
+        this.level = LEVEL_ORDER[options.level || 'warn'] ?? LEVEL_ORDER.warn;
+        this.debugNamespaces = parseNamespaces(options.debug);
+        this.onError = options.onError;
+        this.bridgeId = bridgeId;
+    }
+
+    public enabled(level: RecordLevel, namespace: string): boolean {
+        return level === 'debug' ? this.debugNamespaces(namespace) : LEVEL_ORDER[level] >= this.level;
+    }
+
+    public log(level: RecordLevel, namespace: string, message: string, fields: LogFields = {}) {
+        if (!this.enabled(level, namespace)) return;
+        this.write(this.createRecord(level, namespace, message, fields));
+    }
+
+    public debug(namespace: string, message: string, fields?: LogFields) {
+        this.log('debug', namespace, message, fields);
+    }
+
+    public info(namespace: string, message: string, fields?: LogFields) {
+        this.log('info', namespace, message, fields);
+    }
+
+    public warn(namespace: string, message: string, fields?: LogFields) {
+        this.log('warn', namespace, message, fields);
+    }
+
+    public error(namespace: string, message: string, fields?: LogFields) {
+        this.log('error', namespace, message, fields);
+    }
+
+    // 错误无论级别是否输出都会交给 onError
+    public report(namespace: string, error: unknown, message?: string, fields: LogFields = {}) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        const record = this.createRecord('error', namespace, message ? `${message}: ${err.message}` : err.message, { ...fields, error: err });
+        if (this.enabled('error', namespace)) this.write(record);
+        if (!this.onError) return;
+        try {
+            this.onError(err, record);
+        } catch (hookError) {
+            this.write(this.createRecord('error', 'logger', 'onError handler threw', { error: hookError }));
+        }
+    }
+
+    public scope(namespace: string): ScopedLogger {
+        return {
+            debug: (message, fields) => this.debug(namespace, message, fields),
+            info: (message, fields) => this.info(namespace, message, fields),
+            warn: (message, fields) => this.warn(namespace, message, fields),
+            error: (message, fields) => this.error(namespace, message, fields),
+            report: (error, message, fields) => this.report(namespace, error, message, fields),
+        };
+    }
+
+    private createRecord(level: RecordLevel, namespace: string, message: string, fields: LogFields): LogRecord {
+        return { level, namespace, message, bridgeId: this.bridgeId(), timestamp: Date.now(), ...fields };
+    }
+
+    // 自定义 logger 抛错时不影响消息处理
+    private write(record: LogRecord) {
+        try {
+            this.logger[record.level](record.message, record);
+        } catch {
+            /* ignore */
+        }
+    }
+}
@@ -0,0 +1,42 @@
+import type { IframeMessage, MessageType, Middleware, MiddlewareContext, MiddlewareDirection } from './type';
+
+// 中间件只作用于用户层的帧；握手、心跳、确认等链路帧不经过中间件。
+// 流的分片与确认帧也不经过：丢弃其中任何一帧都会让流停在背压窗口上，既不结束也不报错
+const MIDDLEWARE_TYPES: MessageType[] = ['message', 'request', 'response'];
+
+export class MiddlewarePipeline {
+    private stack: Middleware[] = [];
+
+    public use(middleware: Middleware): () => void {
+        if (!middleware || typeof middleware !== 'object') {
+            throw new Error('middleware must be an object with inbound / outbound / relay hooks');
+        }
+        this.stack.push(middleware);
+        return () => {
+            const index = this.stack.indexOf(middleware);
+            if (index !== -1) this.stack.splice(index, 1);
+        };
+    }
+
+    public applies(direction: MiddlewareDirection, message: IframeMessage): boolean {
+        return MIDDLEWARE_TYPES.includes(message.type as MessageType) && this.stack.some((middleware) => typeof middleware[direction] === 'function');
+    }
+
+    // 按注册顺序依次执行，返回 null 表示被某个中间件丢弃；钩子抛出的错误原样抛给调用方
+    public async run(direction: MiddlewareDirection, message: IframeMessage, context: MiddlewareContext): Promise<IframeMessage | null> {
+        let current = message;
+        for (const middleware of [...this.stack]) {
+            const hook = middleware[direction];
+            if (typeof hook !== 'function') continue;
+            // eslint-disable-next-line no-await-in-loop
+            const result = await hook(current, context);
+            if (result === false) return null;
+            if (result && typeof result === 'object') current = result;
+        }
+        return current;
+    }
+
+    public clear() {
+        this.stack = [];
+    }
+}
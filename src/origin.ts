@@ -0,0 +1,31 @@
+import type { OriginMatcher } from './type';
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// 字符串条目支持 '*' 通配：'*' 匹配任意来源，'https://*.example.com' 匹配其任意子域
+function globToRegExp(pattern: string): RegExp {
+    return new RegExp(`^${pattern.split('*').map(escapeRegExp).join('[^/]*')}$`);
+}
+
+export function matchOrigin(origin: string, matcher: OriginMatcher): boolean {
+    if (typeof matcher === 'function') {
+        try {
+            return matcher(origin) === true;
+        } catch {
+            return false;
+        }
+    }
+    if (matcher instanceof RegExp) {
+        matcher.lastIndex = 0;
+        return matcher.test(origin);
+    }
+    if (typeof matcher !== 'string') return false;
+    if (matcher === '*') return true;
+    return matcher.includes('*') ? globToRegExp(matcher).test(origin) : matcher === origin;
+}
+
+export function isOriginAllowed(origin: string, whitelist: OriginMatcher[]): boolean {
+    return whitelist.some((matcher) => matchOrigin(origin, matcher));
+}
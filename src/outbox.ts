@@ -0,0 +1,154 @@
+import type { IframeMessage } from './type';
+import { DeliveryError } from './errors';
+import { extendedJsonCodec } from './codec';
+import type { ScopedLogger } from './logger';
+
+export interface OutboxOptions {
+    retryDelay: number;
+    maxRetryDelay: number;
+    storageKey: string | null; // 为 null 时不持久化
+}
+
+export interface OutboxTransport {
+    post(message: IframeMessage): void;
+    // 超过期限仍未确认（含页面重新加载后恢复的消息）
+    fail(message: IframeMessage, error: DeliveryError): void;
+    log: ScopedLogger;
+}
+
+interface OutboxEntry {
+    message: IframeMessage;
+    deadline: number;
+    attempts: number;
+    timer: ReturnType<typeof setTimeout> | null;
+    resolve?: () => void;
+    reject?: (reason: unknown) => void;
+}
+
+interface PersistedEntry {
+    message: IframeMessage;
+    deadline: number;
+    attempts: number;
+}
+
+/**
+ * 可靠投递的待确认消息：按 key 等待接收方 ack，未确认前以指数退避重发同一帧（接收方按 key 去重），
+ * 超过期限后以 DeliveryError 失败。开启持久化时写入 sessionStorage，页面重新加载后继续重发。
+ */
+export class Outbox {
+    private entries: Map<string, OutboxEntry> = new Map();
+    private options: OutboxOptions;
+    private transport: OutboxTransport;
+
+    constructor(options: OutboxOptions, transport: OutboxTransport) {
+        this.options = options;
+        this.transport = transport;
+    }
+
+    public add(message: IframeMessage, deadline: number): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            const entry: OutboxEntry = { message, deadline, attempts: 0, timer: null, resolve, reject };
+            this.entries.set(message.key as string, entry);
+            this.persist();
+            this.attempt(entry);
+        });
+    }
+
+    private attempt(entry: OutboxEntry) {
+        const key = entry.message.key as string;
+        if (Date.now() >= entry.deadline) {
+            this.settle(key, new DeliveryError('timeout', entry.message, `Message ${key} to ${entry.message.targetId} was not acknowledged in time`));
+            return;
+        }
+        this.transport.post(entry.message);
+        const delay = Math.min(this.options.retryDelay * 2 ** entry.attempts, this.options.maxRetryDelay);
+        entry.attempts += 1;
+        entry.timer = setTimeout(() => this.attempt(entry), Math.max(0, Math.min(delay, entry.deadline - Date.now())));
+    }
+
+    // 只接受目标页面发回的 ack
+    public ack(key: string, fromId?: string) {
+        const entry = this.entries.get(key);
+        if (!entry || entry.message.targetId !== fromId) return;
+        this.settle(key);
+    }
+
+    private settle(key: string, error?: DeliveryError) {
+        const entry = this.entries.get(key);
+        if (!entry) return;
+        this.entries.delete(key);
+        if (entry.timer) clearTimeout(entry.timer);
+        this.persist();
+        if (!error) {
+            entry.resolve?.();
+            return;
+        }
+        entry.reject?.(error);
+        this.transport.fail(entry.message, error);
+    }
+
+    public get size(): number {
+        return this.entries.size;
+    }
+
+    // 恢复上次页面生命周期中未确认的消息，其 Promise 已不存在，失败时仅通过 transport.fail 通知
+    public restore() {
+        const persisted = this.read();
+        persisted.forEach(({ message, deadline, attempts }) => {
+            if (!message?.key || this.entries.has(message.key)) return;
+            const entry: OutboxEntry = { message, deadline, attempts, timer: null };
+            this.entries.set(message.key, entry);
+            this.attempt(entry);
+        });
+    }
+
+    private storage(): Storage | null {
+        if (!this.options.storageKey) return null;
+        try {
+            return typeof sessionStorage === 'undefined' ? null : sessionStorage;
+        } catch {
+            // 沙箱 iframe 中访问 sessionStorage 可能抛错
+            return null;
+        }
+    }
+
+    private read(): PersistedEntry[] {
+        const storage = this.storage();
+        if (!storage) return [];
+        try {
+            const raw = storage.getItem(this.options.storageKey as string);
+            const entries = raw ? extendedJsonCodec.decode(raw) : [];
+            return Array.isArray(entries) ? entries as PersistedEntry[] : [];
+        } catch {
+            return [];
+        }
+    }
+
+    private persist() {
+        const storage = this.storage();
+        if (!storage) return;
+        try {
+            if (!this.entries.size) {
+                storage.removeItem(this.options.storageKey as string);
+                return;
+            }
+            // transfer 列表无法持久化，恢复后的消息改为复制
+            const entries: PersistedEntry[] = Array.from(this.entries.values(), ({ message, deadline, attempts }) => {
+                const { transfer: _transfer, ...rest } = message;
+                return { message: rest, deadline, attempts };
+            });
+            storage.setItem(this.options.storageKey as string, extendedJsonCodec.encode(entries) as string);
+        } catch (err) {
+            this.transport.log.warn('Failed to persist outbox', { error: err });
+        }
+    }
+
+    // 页面销毁时保留已持久化的消息，供重新加载后继续投递
+    public destroy() {
+        this.entries.forEach((entry) => {
+            if (entry.timer) clearTimeout(entry.timer);
+            entry.reject?.(new DeliveryError('destroyed', entry.message, 'IframeBridge has been destroyed'));
+        });
+        this.entries.clear();
+    }
+}
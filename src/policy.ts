@@ -0,0 +1,166 @@
+import type { AccessPolicy, IframeMessage, PeerPolicy, PolicyDenial } from './type';
+
+// '*' 匹配任意值，以 '*' 结尾的条目按前缀匹配（如 'chat:*'）
+export function matchesPattern(value: string, patterns: string[]): boolean {
+    return patterns.some((pattern) => {
+        if (pattern === '*') return true;
+        if (pattern.endsWith('*')) return value.startsWith(pattern.slice(0, -1));
+        return pattern === value;
+    });
+}
+
+// 估算 data 的字节数：编码后的字符串取长度，二进制取 byteLength，其余按 JSON 序列化长度
+export function estimateSize(data: unknown): number {
+    if (data === null || data === undefined) return 0;
+    if (typeof data === 'string') return data.length;
+    if (data instanceof ArrayBuffer) return data.byteLength;
+    if (ArrayBuffer.isView(data)) return data.byteLength;
+    try {
+        return JSON.stringify(data, (_key, value) => (
+            value instanceof ArrayBuffer || ArrayBuffer.isView(value) ? { byteLength: value.byteLength } : value
+        ))?.length ?? 0;
+    } catch {
+        return 0;
+    }
+}
+
+// 令牌桶：容量为 capacity，每 interval 毫秒匀速补满
+export class TokenBucket {
+    private tokens: number;
+    private updatedAt: number;
+    private capacity: number;
+    private interval: number;
+
+    constructor(capacity: number, interval: number, now = Date.now()) {
+        this.capacity = Math.max(1, capacity);
+        this.interval = Math.max(1, interval);
+        this.tokens = this.capacity;
+        this.updatedAt = now;
+    }
+
+    public take(now = Date.now()): boolean {
+        const elapsed = now - this.updatedAt;
+        this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.capacity) / this.interval);
+        this.updatedAt = now;
+        if (this.tokens < 1) return false;
+        this.tokens -= 1;
+        return true;
+    }
+}
+
+// 入站帧队列：按到达的链路分别计数，一条链路积压不会挤占其他链路的配额
+export class LinkQueue<T> {
+    private items: { link: string; item: T }[] = [];
+    private counts: Map<string, number> = new Map();
+
+    public get length(): number {
+        return this.items.length;
+    }
+
+    public count(link: string): number {
+        return this.counts.get(link) || 0;
+    }
+
+    public push(link: string, item: T) {
+        this.items.push({ link, item });
+        this.counts.set(link, this.count(link) + 1);
+    }
+
+    public shift(): T | undefined {
+        const entry = this.items.shift();
+        if (entry) this.release(entry.link);
+        return entry?.item;
+    }
+
+    public drain(): T[] {
+        const items = this.items.map((entry) => entry.item);
+        this.clear();
+        return items;
+    }
+
+    // 丢弃该链路最早排队的一帧，返回被丢弃的帧
+    public dropOldest(link: string): T | undefined {
+        const index = this.items.findIndex((entry) => entry.link === link);
+        if (index < 0) return undefined;
+        const [entry] = this.items.splice(index, 1);
+        this.release(link);
+        return entry.item;
+    }
+
+    public dropLink(link: string): T[] {
+        const dropped = this.items.filter((entry) => entry.link === link).map((entry) => entry.item);
+        this.items = this.items.filter((entry) => entry.link !== link);
+        this.counts.delete(link);
+        return dropped;
+    }
+
+    public clear() {
+        this.items = [];
+        this.counts.clear();
+    }
+
+    private release(link: string) {
+        const left = this.count(link) - 1;
+        if (left > 0) this.counts.set(link, left);
+        else this.counts.delete(link);
+    }
+}
+
+/**
+ * 按页面 id 检查其发出的消息是否符合策略。未单独配置的页面使用 default，二者都没有时不做限制。
+ * internalMethods 为桥内部使用的 request 方法，不受 methods 限制。
+ */
+export class PolicyEnforcer {
+    private policy: AccessPolicy;
+    private internalMethods: string[];
+    private buckets: Map<string, TokenBucket> = new Map();
+
+    constructor(policy: AccessPolicy, internalMethods: string[] = []) {
+        this.policy = policy;
+        this.internalMethods = internalMethods;
+    }
+
+    private policyFor(peerId: string): PeerPolicy | undefined {
+        return this.policy.peers?.[peerId] ?? this.policy.default;
+    }
+
+    public canTarget(peerId: string, targetId: string): boolean {
+        const targets = this.policyFor(peerId)?.targets;
+        return !targets || matchesPattern(targetId, targets);
+    }
+
+    // multicast 为 true 时目标由调用方在展开多播时逐个检查
+    public check(message: IframeMessage, peerId: string, multicast: boolean): PolicyDenial | null {
+        const policy = this.policyFor(peerId);
+        if (!policy) return null;
+        const { type, key, targetId } = message;
+        const deny = (code: PolicyDenial['code'], reason: string): PolicyDenial => ({ code, reason, key, targetId });
+
+        if (!multicast && targetId && !this.canTarget(peerId, targetId)) {
+            return deny('forbidden', `${peerId} is not allowed to message ${targetId}`);
+        }
+        if (type === 'request') {
+            const method = message.method || '';
+            if (policy.methods && !this.internalMethods.includes(method) && !matchesPattern(method, policy.methods)) {
+                return deny('forbidden', `${peerId} is not allowed to call method "${method}"`);
+            }
+        } else if (policy.channels) {
+            const channel = message.event || type || 'message';
+            if (!matchesPattern(channel, policy.channels)) {
+                return deny('forbidden', `${peerId} is not allowed to use channel "${channel}"`);
+            }
+        }
+        if (typeof policy.maxSize === 'number' && estimateSize(message.data) > policy.maxSize) {
+            return deny('payload-too-large', `Payload from ${peerId} exceeds ${policy.maxSize} bytes`);
+        }
+        if (policy.rateLimit) {
+            let bucket = this.buckets.get(peerId);
+            if (!bucket) {
+                bucket = new TokenBucket(policy.rateLimit.count, policy.rateLimit.interval);
+                this.buckets.set(peerId, bucket);
+            }
+            if (!bucket.take()) return deny('rate-limited', `${peerId} exceeded ${policy.rateLimit.count} messages per ${policy.rateLimit.interval}ms`);
+        }
+        return null;
+    }
+}
@@ -0,0 +1,196 @@
+import type { Remote } from './type';
+import { FORBIDDEN_KEYS, isPlainObject } from './guard';
+
+// 参数与返回值中的函数替换为该标记对象，接收方还原为调用原函数的远程函数
+const CALLBACK_MARKER = '__iframeBridgeCallback';
+
+type AnyFunction = (...args: unknown[]) => unknown;
+
+export interface RemoteCall {
+    name: string;
+    path: string[];
+    args: unknown[];
+}
+
+export interface RemoteTransport {
+    call(peerId: string, call: RemoteCall): Promise<unknown>;
+    callback(peerId: string, id: string, args: unknown[]): Promise<unknown>;
+    release(peerId: string, ids: string[]): void;
+}
+
+interface CallbackEntry {
+    fn: AnyFunction;
+    peerId: string; // 只有拿到该引用的页面可以调用或释放
+}
+
+interface StubInfo {
+    peerId: string;
+    id: string;
+    released: boolean;
+}
+
+interface Finalizer {
+    register(target: object, held: StubInfo, token: object): void;
+    unregister(token: object): void;
+}
+
+type FinalizerConstructor = new (cleanup: (held: StubInfo) => void) => Finalizer;
+
+function isCallbackRef(value: unknown): value is { [CALLBACK_MARKER]: string } {
+    return isPlainObject(value) && typeof value[CALLBACK_MARKER] === 'string' && Object.keys(value).length === 1;
+}
+
+/**
+ * expose / remote 的远程对象调用：remote() 返回的 Proxy 记录属性路径，调用时向对端发起请求，
+ * 对端沿路径找到已公开对象上的方法并执行。参数与返回值中的函数以引用传递，对端调用时回调本页面，
+ * 远程函数被垃圾回收（FinalizationRegistry）或显式 release() 后通知本页面释放。
+ */
+export class RemoteObjects {
+    private transport: RemoteTransport;
+    private exposed: Map<string, object> = new Map();
+    private callbacks: Map<string, CallbackEntry> = new Map();
+    private stubs: WeakMap<AnyFunction, StubInfo> = new WeakMap();
+    private finalizer: Finalizer | null;
+    private nextId = 0;
+
+    constructor(transport: RemoteTransport) {
+        this.transport = transport;
+        const Registry = (globalThis as { FinalizationRegistry?: FinalizerConstructor }).FinalizationRegistry;
+        this.finalizer = Registry ? new Registry((held) => this.releaseStub(held)) : null;
+    }
+
+    public expose(name: string, target: object): () => void {
+        if (!target || (typeof target !== 'object' && typeof target !== 'function')) {
+            throw new Error('expose target must be an object');
+        }
+        this.exposed.set(name, target);
+        return () => {
+            if (this.exposed.get(name) === target) this.exposed.delete(name);
+        };
+    }
+
+    public remote<T>(peerId: string, name: string): Remote<T> {
+        return this.createProxy(peerId, name, []) as Remote<T>;
+    }
+
+    // 属性访问返回下一级代理，调用时才发出请求；then 返回 undefined，避免代理被当作 thenable
+    private createProxy(peerId: string, name: string, path: string[]): unknown {
+        const target = function remoteObject() { /* 仅作为 apply 陷阱的载体 */ };
+        return new Proxy(target, {
+            get: (_target, prop) => {
+                if (typeof prop === 'symbol' || prop === 'then') return undefined;
+                return this.createProxy(peerId, name, [...path, prop]);
+            },
+            apply: async (_target, _this, args: unknown[]) => {
+                const result = await this.transport.call(peerId, { name, path, args: this.encode(args, peerId) as unknown[] });
+                return this.decode(result, peerId);
+            },
+        });
+    }
+
+    // 将函数登记为回调并替换为引用标记
+    public encode(value: unknown, peerId: string): unknown {
+        if (typeof value === 'function') {
+            const id = `cb_${(this.nextId += 1)}_${Math.random().toString(36).slice(2, 8)}`;
+            this.callbacks.set(id, { fn: value as AnyFunction, peerId });
+            return { [CALLBACK_MARKER]: id };
+        }
+        if (Array.isArray(value)) return value.map((item) => this.encode(item, peerId));
+        if (isPlainObject(value)) {
+            const copy: Record<string, unknown> = {};
+            Object.keys(value).forEach((key) => {
+                copy[key] = this.encode(value[key], peerId);
+            });
+            return copy;
+        }
+        return value;
+    }
+
+    // 将引用标记还原为回调对端的远程函数
+    public decode(value: unknown, peerId: string): unknown {
+        if (isCallbackRef(value)) return this.createStub(peerId, value[CALLBACK_MARKER]);
+        if (Array.isArray(value)) return value.map((item) => this.decode(item, peerId));
+        if (isPlainObject(value)) {
+            const copy: Record<string, unknown> = {};
+            Object.keys(value).forEach((key) => {
+                copy[key] = this.decode(value[key], peerId);
+            });
+            return copy;
+        }
+        return value;
+    }
+
+    private createStub(peerId: string, id: string): AnyFunction {
+        const info: StubInfo = { peerId, id, released: false };
+        const stub = async (...args: unknown[]) => {
+            if (info.released) throw new Error('Remote function has been released');
+            const result = await this.transport.callback(peerId, id, this.encode(args, peerId) as unknown[]);
+            return this.decode(result, peerId);
+        };
+        this.stubs.set(stub, info);
+        this.finalizer?.register(stub, info, stub);
+        return stub;
+    }
+
+    // 显式释放远程函数，对端随即删除对应的回调
+    public release(fn: unknown) {
+        const info = typeof fn === 'function' ? this.stubs.get(fn as AnyFunction) : undefined;
+        if (!info) return;
+        this.finalizer?.unregister(fn as AnyFunction);
+        this.releaseStub(info);
+    }
+
+    private releaseStub(info: StubInfo) {
+        if (info.released) return;
+        info.released = true;
+        this.transport.release(info.peerId, [info.id]);
+    }
+
+    // 对端调用本页面公开对象上的方法，this 绑定为方法所在的对象
+    public async handleCall(call: RemoteCall, peerId: string): Promise<unknown> {
+        const { name, path, args } = call || ({} as RemoteCall);
+        const root = this.exposed.get(name);
+        if (!root) throw new Error(`No object exposed as "${name}"`);
+        if (!Array.isArray(path) || !path.length) throw new Error(`"${name}" cannot be called directly`);
+
+        let owner: unknown = root;
+        let member: unknown = root;
+        for (const key of path) {
+            if (typeof key !== 'string' || FORBIDDEN_KEYS.includes(key) || key in Object.prototype || member === null || member === undefined) {
+                throw new Error(`Cannot access "${path.join('.')}" on "${name}"`);
+            }
+            owner = member;
+            member = (member as Record<string, unknown>)[key];
+        }
+        if (typeof member !== 'function') throw new Error(`"${name}.${path.join('.')}" is not a function`);
+        const decoded = this.decode(Array.isArray(args) ? args : [], peerId) as unknown[];
+        const result = await (member as AnyFunction).apply(owner, decoded);
+        return this.encode(result, peerId);
+    }
+
+    public async handleCallback(id: string, args: unknown, peerId: string): Promise<unknown> {
+        const entry = this.callbacks.get(id);
+        if (!entry || entry.peerId !== peerId) throw new Error('Callback has been released or does not exist');
+        const result = await entry.fn(...(this.decode(Array.isArray(args) ? args : [], peerId) as unknown[]));
+        return this.encode(result, peerId);
+    }
+
+    public handleRelease(ids: unknown, peerId: string) {
+        if (!Array.isArray(ids)) return;
+        ids.forEach((id) => {
+            if (this.callbacks.get(id)?.peerId === peerId) this.callbacks.delete(id);
+        });
+    }
+
+    // 对端页面卸载或重新加载后，其持有的回调引用全部失效
+    public dropPeer(peerId: string) {
+        this.callbacks.forEach((entry, id) => {
+            if (entry.peerId === peerId) this.callbacks.delete(id);
+        });
+    }
+
+    public destroy() {
+        this.exposed.clear();
+        this.callbacks.clear();
+    }
+}
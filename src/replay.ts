@@ -0,0 +1,60 @@
+import type { IframeMessage, ReplayMetrics } from './type';
+
+export type ReplayVerdict = 'accept' | 'duplicate' | 'stale' | 'future';
+
+/**
+ * 按 sourceId + key 去重，并拒绝过期或时间戳超前的帧。
+ * 已见 key 以 Map 的插入顺序实现 LRU，超过容量时淘汰最早的记录；
+ * 淘汰的 key 若仍在 maxAge 内重放将无法识别，容量应覆盖 maxAge 内的消息量。
+ */
+export class ReplayGuard {
+    private seen: Map<string, number> = new Map();
+    private size: number;
+    private maxAge: number; // <= 0 表示不检查
+    private clockSkew: number;
+    private metrics: ReplayMetrics = { delivered: 0, duplicates: 0, stale: 0, future: 0 };
+
+    constructor(size: number, maxAge: number, clockSkew: number) {
+        this.size = Math.max(1, size);
+        this.maxAge = maxAge;
+        this.clockSkew = Math.max(0, clockSkew);
+    }
+
+    // 未携带 timestamp / key 的旧版帧不做对应检查
+    public check(message: IframeMessage, now = Date.now()): ReplayVerdict {
+        const { timestamp, key, sourceId } = message;
+        if (typeof timestamp === 'number') {
+            if (timestamp > now + this.clockSkew) return this.count('future');
+            if (this.maxAge > 0 && now - timestamp > this.maxAge) return this.count('stale');
+        }
+        if (key) {
+            const id = `${sourceId || ''}:${key}`;
+            if (this.seen.has(id)) {
+                // 重复命中时移到队尾，保持最近使用的 key
+                this.seen.delete(id);
+                this.seen.set(id, now);
+                return this.count('duplicate');
+            }
+            this.seen.set(id, now);
+            if (this.seen.size > this.size) {
+                this.seen.delete(this.seen.keys().next().value as string);
+            }
+        }
+        this.metrics.delivered += 1;
+        return 'accept';
+    }
+
+    private count(verdict: Exclude<ReplayVerdict, 'accept'>): ReplayVerdict {
+        const field = verdict === 'duplicate' ? 'duplicates' : verdict;
+        this.metrics[field] += 1;
+        return verdict;
+    }
+
+    public getMetrics(): ReplayMetrics {
+        return { ...this.metrics };
+    }
+
+    public clear() {
+        this.seen.clear();
+    }
+}
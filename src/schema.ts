@@ -0,0 +1,110 @@
+import type { StandardIssue, StandardResult, StandardSchema, Validator } from './type';
+
+const VENDOR = 'iframe-bridge';
+
+// 从校验器推断通过校验后的数据类型
+export type Infer<T> = T extends StandardSchema<infer O> ? O : unknown;
+
+// 值可为 undefined 的字段推断为可选属性
+type ObjectOutput<Shape extends Record<string, StandardSchema>> = {
+    [K in keyof Shape as undefined extends Infer<Shape[K]> ? never : K]: Infer<Shape[K]>;
+} & {
+    [K in keyof Shape as undefined extends Infer<Shape[K]> ? K : never]?: Infer<Shape[K]>;
+};
+
+export type ValidationOutcome = { ok: true; value: unknown } | { ok: false; issues: string[] };
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function mismatch(expected: string, value: unknown): StandardIssue[] {
+    return [{ message: `expected ${expected}, received ${describe(value)}` }];
+}
+
+function define<T>(check: (value: unknown) => StandardIssue[]): StandardSchema<T> {
+    return {
+        '~standard': {
+            version: 1,
+            vendor: VENDOR,
+            validate: (value) => {
+                const issues = check(value);
+                return issues.length ? { issues } : { value: value as T };
+            },
+        },
+    };
+}
+
+// 内置校验器均为同步，嵌套的外部 schema 若返回 Promise 视为不支持
+function checkNested(schema: StandardSchema, value: unknown, key?: PropertyKey): StandardIssue[] {
+    const result = schema['~standard'].validate(value);
+    if (result instanceof Promise) {
+        return [{ message: 'async schemas cannot be nested', path: key === undefined ? [] : [key] }];
+    }
+    return (result.issues || []).map((issue) => ({
+        message: issue.message,
+        path: key === undefined ? issue.path : [key, ...(issue.path || [])],
+    }));
+}
+
+/**
+ * 内置的简易校验器，实现 Standard Schema 接口，可与 zod、valibot 等混用。
+ * 仅检查结构，不做类型转换。
+ */
+export const v = {
+    string: () => define<string>((value) => (typeof value === 'string' ? [] : mismatch('string', value))),
+    number: () => define<number>((value) => (typeof value === 'number' && !Number.isNaN(value) ? [] : mismatch('number', value))),
+    boolean: () => define<boolean>((value) => (typeof value === 'boolean' ? [] : mismatch('boolean', value))),
+    unknown: () => define<unknown>(() => []),
+    literal: <T extends string | number | boolean | null>(expected: T) =>
+        define<T>((value) => (value === expected ? [] : [{ message: `expected ${JSON.stringify(expected)}` }])),
+    optional: <T>(inner: StandardSchema<T>) =>
+        define<T | undefined>((value) => (value === undefined ? [] : checkNested(inner, value))),
+    array: <T>(item: StandardSchema<T>) =>
+        define<T[]>((value) => {
+            if (!Array.isArray(value)) return mismatch('array', value);
+            return value.reduce<StandardIssue[]>((issues, entry, i) => issues.concat(checkNested(item, entry, i)), []);
+        }),
+    object: <Shape extends Record<string, StandardSchema>>(shape: Shape) =>
+        define<ObjectOutput<Shape>>((value) => {
+            if (value === null || typeof value !== 'object' || Array.isArray(value)) return mismatch('object', value);
+            const record = value as Record<string, unknown>;
+            return Object.keys(shape).reduce<StandardIssue[]>((issues, key) => issues.concat(checkNested(shape[key], record[key], key)), []);
+        }),
+    union: <T extends StandardSchema[]>(...options: T) =>
+        define<Infer<T[number]>>((value) =>
+            (options.some((option) => !checkNested(option, value).length) ? [] : [{ message: 'no union member matched' }])),
+};
+
+function formatIssue(issue: StandardIssue): string {
+    const path = (issue.path || []).map((segment) => String(typeof segment === 'object' ? segment.key : segment));
+    return path.length ? `${path.join('.')}: ${issue.message}` : issue.message;
+}
+
+function toOutcome(result: StandardResult<unknown>): ValidationOutcome {
+    return result.issues ? { ok: false, issues: result.issues.map(formatIssue) } : { ok: true, value: result.value };
+}
+
+function toFailure(err: unknown): ValidationOutcome {
+    return { ok: false, issues: [err instanceof Error ? err.message : String(err)] };
+}
+
+/**
+ * 执行校验器：同步校验器同步返回结果，以免打乱消息的派发顺序；
+ * 通过时 value 为校验器的输出（schema 库可能做了转换）。
+ */
+export function runValidator(validator: Validator, value: unknown): ValidationOutcome | Promise<ValidationOutcome> {
+    try {
+        if (typeof validator === 'function') {
+            const verdict = validator(value);
+            if (verdict === true) return { ok: true, value };
+            return { ok: false, issues: [typeof verdict === 'string' ? verdict : 'validation failed'] };
+        }
+        const result = validator['~standard'].validate(value);
+        return result instanceof Promise ? result.then(toOutcome, toFailure) : toOutcome(result);
+    } catch (err) {
+        return toFailure(err);
+    }
+}
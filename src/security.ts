@@ -0,0 +1,193 @@
+import type { IframeMessage, MessageSeal, SecurityMode } from './type';
+import { extendedJsonCodec } from './codec';
+
+const ECDH_PARAMS: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' };
+const HKDF_INFO = 'iframe-bridge/v1';
+
+// 需要签名/加密的消息类型；握手、路由通告、心跳等控制帧仍只依赖会话令牌
+const SEALED_TYPES = ['message', 'request', 'response', 'stream', 'state'];
+
+export function isSealedType(type?: string): boolean {
+    return !!type && SEALED_TYPES.includes(type);
+}
+
+// 查询对端公钥：recipient 为实际加密/签名的对象（分组等多播目标由主页面代收）
+export interface KeyLookupResult {
+    recipient: string;
+    publicKey: string;
+}
+
+export type KeyLookup = (id: string) => Promise<KeyLookupResult | null>;
+
+interface DerivedKeys {
+    hmac: CryptoKey;
+    aes: CryptoKey;
+}
+
+function getSubtle(): SubtleCrypto {
+    const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+    if (!subtle) throw new Error('IframeBridge: message security requires Web Crypto (crypto.subtle)');
+    return subtle;
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach((b) => {
+        binary += String.fromCharCode(b);
+    });
+    return btoa(binary);
+}
+
+// 以 TypedArray 而非 ArrayBuffer 传给 crypto.subtle，避免跨 realm（如 jsdom）时的类型校验失败
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+const encodeText = (text: string) => new TextEncoder().encode(text);
+
+// 参与签名的帧头：key 与 timestamp 一并签入，中继页面无法改写或重放为其他消息；path / token 等逐跳字段除外
+function sealHeader(message: IframeMessage, seal: MessageSeal): string {
+    return JSON.stringify([
+        seal.alg, seal.signer, seal.recipient, seal.iv ?? null,
+        message.type, message.key, message.sourceId, message.targetId, message.timestamp, message.codec,
+        message.event ?? null, message.method ?? null, message.replyTo ?? null, message.streamId ?? null,
+        message.targets ?? null, message.exclude ?? null, message.reliable ?? null, message.multicast ?? null,
+    ]);
+}
+
+/**
+ * 基于 ECDH(P-256) 的端到端消息保护：握手时交换公钥，与每个对端的共享密钥经 HKDF 派生出
+ * HMAC-SHA256（sign 模式）与 AES-GCM（encrypt 模式）密钥。data 以 extended-json 序列化后签名或加密。
+ */
+export class SecurityLayer {
+    public readonly mode: SecurityMode;
+    public readonly ready: Promise<void>;
+    public publicKey = '';
+    private privateKey: CryptoKey | null = null;
+    private lookup: KeyLookup;
+    private peerKeys: Map<string, string> = new Map(); // 页面 id => 公钥
+    private derived: Map<string, Promise<DerivedKeys>> = new Map(); // 公钥 => 派生密钥
+    private openChains: Map<string, Promise<IframeMessage | null>> = new Map();
+
+    constructor(mode: SecurityMode, lookup: KeyLookup) {
+        this.mode = mode;
+        this.lookup = lookup;
+        this.ready = this.generateKeyPair();
+        this.ready.catch(() => undefined);
+    }
+
+    private async generateKeyPair() {
+        const subtle = getSubtle();
+        const pair = await subtle.generateKey(ECDH_PARAMS, false, ['deriveBits']) as CryptoKeyPair;
+        this.privateKey = pair.privateKey;
+        this.publicKey = toBase64(new Uint8Array(await subtle.exportKey('raw', pair.publicKey)));
+    }
+
+    public setPeerKey(id: string, publicKey: string) {
+        this.peerKeys.set(id, publicKey);
+    }
+
+    public getPeerKey(id: string): string | undefined {
+        return this.peerKeys.get(id);
+    }
+
+    private async resolve(id: string): Promise<KeyLookupResult | null> {
+        const known = this.peerKeys.get(id);
+        if (known) return { recipient: id, publicKey: known };
+        const found = await this.lookup(id);
+        if (found && found.recipient === id) this.peerKeys.set(id, found.publicKey);
+        return found;
+    }
+
+    private derive(publicKey: string): Promise<DerivedKeys> {
+        let keys = this.derived.get(publicKey);
+        if (!keys) {
+            keys = (async () => {
+                await this.ready;
+                const subtle = getSubtle();
+                const peer = await subtle.importKey('raw', fromBase64(publicKey), ECDH_PARAMS, false, []);
+                const bits = await subtle.deriveBits({ name: 'ECDH', public: peer }, this.privateKey as CryptoKey, 256);
+                const base = await subtle.importKey('raw', new Uint8Array(bits), 'HKDF', false, ['deriveKey']);
+                const params = (usage: string) => ({ name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encodeText(`${HKDF_INFO}/${usage}`) });
+                const hmac = await subtle.deriveKey(params('hmac'), base, { name: 'HMAC', hash: 'SHA-256', length: 256 }, false, ['sign', 'verify']);
+                const aes = await subtle.deriveKey(params('aes-gcm'), base, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+                return { hmac, aes };
+            })();
+            this.derived.set(publicKey, keys);
+            keys.catch(() => this.derived.delete(publicKey));
+        }
+        return keys;
+    }
+
+    // raw 为未编码的 data；返回的帧 data 为签名后的明文或密文，不再携带 transfer
+    public async seal(message: IframeMessage, raw: unknown, target: string, signer: string): Promise<IframeMessage> {
+        const resolved = await this.resolve(target);
+        if (!resolved) throw new Error(`No public key known for ${target}`);
+        const keys = await this.derive(resolved.publicKey);
+        const subtle = getSubtle();
+        const { transfer: _transfer, ...rest } = message;
+        const base: IframeMessage = { ...rest, codec: extendedJsonCodec.id };
+        const payload = extendedJsonCodec.encode(raw) as string;
+
+        if (this.mode === 'encrypt') {
+            const iv = crypto.getRandomValues(new Uint8Array(12));
+            const seal: MessageSeal = { alg: 'aes-gcm', signer, recipient: resolved.recipient, iv: toBase64(iv) };
+            const cipher = await subtle.encrypt(
+                { name: 'AES-GCM', iv, additionalData: encodeText(sealHeader(base, seal)) }, keys.aes, encodeText(payload),
+            );
+            return { ...base, data: toBase64(new Uint8Array(cipher)), seal };
+        }
+        const seal: MessageSeal = { alg: 'hmac-sha256', signer, recipient: resolved.recipient };
+        const sig = await subtle.sign('HMAC', keys.hmac, encodeText(`${sealHeader(base, seal)}\n${payload}`));
+        return { ...base, data: payload, seal: { ...seal, sig: toBase64(new Uint8Array(sig)) } };
+    }
+
+    /**
+     * 校验并解开发往 self 的帧，失败返回 null。同一签名方的帧按到达顺序依次处理，
+     * 查询公钥期间不影响其他页面的消息。
+     */
+    public open(message: IframeMessage, self: string, rootId: string): Promise<IframeMessage | null> {
+        const signer = message.seal?.signer ?? '';
+        const previous = this.openChains.get(signer) ?? Promise.resolve(null);
+        const result = previous.then(() => this.verify(message, self, rootId));
+        this.openChains.set(signer, result);
+        void result.then(() => {
+            if (this.openChains.get(signer) === result) this.openChains.delete(signer);
+        });
+        return result;
+    }
+
+    private async verify(message: IframeMessage, self: string, rootId: string): Promise<IframeMessage | null> {
+        const { seal, data } = message;
+        if (!seal || seal.recipient !== self || typeof data !== 'string') return null;
+        // 签名方须为发送方本身；只有主页面展开的多播副本由主页面以自身身份重新签名
+        if (seal.signer !== message.sourceId && !(seal.signer === rootId && message.multicast)) return null;
+        try {
+            const resolved = await this.resolve(seal.signer);
+            if (!resolved || resolved.recipient !== seal.signer) return null;
+            const keys = await this.derive(resolved.publicKey);
+            const subtle = getSubtle();
+            const header = sealHeader(message, seal);
+            let payload: string;
+            if (seal.alg === 'aes-gcm' && seal.iv) {
+                const plain = await subtle.decrypt(
+                    { name: 'AES-GCM', iv: fromBase64(seal.iv), additionalData: encodeText(header) }, keys.aes, fromBase64(data),
+                );
+                payload = new TextDecoder().decode(plain);
+            } else if (seal.alg === 'hmac-sha256' && seal.sig) {
+                const valid = await subtle.verify('HMAC', keys.hmac, fromBase64(seal.sig), encodeText(`${header}\n${data}`));
+                if (!valid) return null;
+                payload = data;
+            } else {
+                return null;
+            }
+            const { seal: _seal, ...rest } = message;
+            return { ...rest, data: payload, codec: extendedJsonCodec.id };
+        } catch {
+            return null;
+        }
+    }
+}
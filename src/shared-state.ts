@@ -0,0 +1,299 @@
+import type { IframeMessage, SharedState, SharedStateErrorCode, SharedStateOptions, StateChange, StatePatch, StatePatchOp, StateSnapshot } from './type';
+import { SharedStateError } from './errors';
+import type { ScopedLogger } from './logger';
+import { FORBIDDEN_KEYS, isPlainObject } from './guard';
+
+// 提议遇到版本冲突时基于最新状态重试的次数上限（仅函数形式的 set）
+const MAX_PROPOSAL_ATTEMPTS = 3;
+
+// 共享状态帧，作为 type 为 'state' 的消息的 data；带 patch 为增量更新，否则为完整快照
+export interface StateFrame {
+    name: string;
+    version: number;
+    value?: unknown;
+    patch?: StatePatch;
+    by?: string; // 提出该修改的页面
+}
+
+export interface StateProposal {
+    name: string;
+    base: number; // 提议基于的版本
+    patch: StatePatch;
+}
+
+export type ProposalReply =
+    | { accepted: true; version: number }
+    | { accepted: false; code: SharedStateErrorCode; reason: string; snapshot?: StateSnapshot };
+
+export interface SharedStateTransport {
+    selfId(): string;
+    ownerId(): string; // 主页面 id，快照同步引起的变化以其为来源
+    isOwner(): boolean; // 主页面持有权威副本
+    isConnected(): boolean; // 已与上级页面完成握手，可向主页面同步
+    broadcast(frame: StateFrame): void;
+    propose(proposal: StateProposal): Promise<ProposalReply>;
+    sync(name: string): Promise<StateSnapshot | null>;
+    log: ScopedLogger;
+}
+
+type StateListener = (value: unknown, change: StateChange) => void;
+
+interface StateEntry {
+    name: string;
+    value: unknown;
+    version: number;
+    approve?: SharedStateOptions<unknown>['approve'];
+    listeners: Set<StateListener>;
+    markSynced: () => void;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+    }
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length && keys.every((key) => key in b && isEqual(a[key], b[key]));
+    }
+    return false;
+}
+
+// 普通对象逐个属性比较，其余值（含数组）有变化时整体替换
+export function diffState(prev: unknown, next: unknown, path: string[] = []): StatePatch {
+    if (isEqual(prev, next)) return [];
+    if (!isPlainObject(prev) || !isPlainObject(next)) return [{ path, value: next }];
+    const patch: StatePatch = [];
+    Object.keys(prev).forEach((key) => {
+        if (!(key in next)) patch.push({ path: [...path, key], remove: true });
+    });
+    Object.keys(next).forEach((key) => {
+        patch.push(...diffState(prev[key], next[key], [...path, key]));
+    });
+    return patch;
+}
+
+function setIn(target: unknown, path: string[], op: StatePatchOp): unknown {
+    if (!path.length) return op.value;
+    const [key, ...rest] = path;
+    const copy: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+    if (!rest.length && op.remove) {
+        delete copy[key];
+    } else {
+        copy[key] = setIn(copy[key], rest, op);
+    }
+    return copy;
+}
+
+// 沿路径复制对象，未修改的分支保持原引用
+export function applyPatch(value: unknown, patch: StatePatch): unknown {
+    return patch.reduce((current, op) => setIn(current, op.path, op), value);
+}
+
+function isValidPatch(patch: unknown): patch is StatePatch {
+    return Array.isArray(patch) && patch.every((op) => op && Array.isArray(op.path)
+        && op.path.every((key: unknown) => typeof key === 'string' && !FORBIDDEN_KEYS.includes(key)));
+}
+
+/**
+ * 主页面持有的共享状态：创建时与每次修改后向全部页面广播（快照 / patch，版本号递增），
+ * 子页面在握手应答中获得快照，版本不连续时向主页面重新同步；子页面的修改以提议的形式交由主页面审批。
+ */
+export class SharedStateManager {
+    private transport: SharedStateTransport;
+    private entries: Map<string, StateEntry> = new Map();
+
+    constructor(transport: SharedStateTransport) {
+        this.transport = transport;
+    }
+
+    public create<T>(name: string, initial: T, options: SharedStateOptions<T> = {}): SharedState<T> {
+        if (this.entries.has(name)) {
+            throw new Error(`Shared state "${name}" already exists`);
+        }
+        const owner = this.transport.isOwner();
+        let markSynced!: () => void;
+        const ready = new Promise<void>((resolve) => {
+            markSynced = resolve;
+        });
+        const entry: StateEntry = {
+            name,
+            value: initial,
+            version: owner ? 1 : 0,
+            approve: options.approve as StateEntry['approve'],
+            listeners: new Set(),
+            markSynced,
+        };
+        this.entries.set(name, entry);
+
+        if (owner) {
+            markSynced();
+            this.transport.broadcast({ name, version: entry.version, value: initial });
+        } else if (this.transport.isConnected()) {
+            this.resync(entry);
+        }
+
+        return {
+            name,
+            ready,
+            get version() {
+                return entry.version;
+            },
+            get: () => entry.value as T,
+            set: (next) => this.update(entry, next as unknown, 1),
+            subscribe: (listener) => {
+                const wrapped = listener as StateListener;
+                entry.listeners.add(wrapped);
+                return () => entry.listeners.delete(wrapped);
+            },
+            destroy: () => {
+                entry.listeners.clear();
+                if (this.entries.get(name) === entry) this.entries.delete(name);
+            },
+        };
+    }
+
+    private async update(entry: StateEntry, next: unknown, attempt: number): Promise<void> {
+        const value = typeof next === 'function' ? (next as (current: unknown) => unknown)(entry.value) : next;
+        const patch = diffState(entry.value, value);
+        if (!patch.length) return;
+        if (this.transport.isOwner()) {
+            this.commit(entry, patch, this.transport.selfId());
+            return;
+        }
+
+        const base = entry.version;
+        const reply = await this.transport.propose({ name: entry.name, base, patch });
+        if (reply.accepted) {
+            // 主页面广播的同一 patch 可能先于应答到达
+            if (entry.version === base) {
+                this.applyChange(entry, patch, reply.version, this.transport.selfId());
+            } else if (entry.version < reply.version) {
+                this.resync(entry);
+            }
+            return;
+        }
+        if (reply.snapshot) this.adopt(entry, reply.snapshot, this.transport.ownerId());
+        if (reply.code === 'conflict' && typeof next === 'function' && attempt < MAX_PROPOSAL_ATTEMPTS) {
+            return this.update(entry, next, attempt + 1);
+        }
+        throw new SharedStateError(reply.code, entry.name, reply.reason);
+    }
+
+    // 主页面应用修改并广播
+    private commit(entry: StateEntry, patch: StatePatch, by: string) {
+        this.applyChange(entry, patch, entry.version + 1, by);
+        this.transport.broadcast({ name: entry.name, version: entry.version, patch, by });
+    }
+
+    private applyChange(entry: StateEntry, patch: StatePatch, version: number, by: string) {
+        entry.value = applyPatch(entry.value, patch);
+        entry.version = version;
+        this.notify(entry, { version, patch, sourceId: by });
+    }
+
+    // 采用更新的快照，订阅者收到与本地副本的差异
+    private adopt(entry: StateEntry, snapshot: StateSnapshot, by: string) {
+        if (snapshot.version <= entry.version) return;
+        const patch = diffState(entry.value, snapshot.value);
+        entry.value = snapshot.value;
+        entry.version = snapshot.version;
+        entry.markSynced();
+        if (patch.length) this.notify(entry, { version: snapshot.version, patch, sourceId: by });
+    }
+
+    private notify(entry: StateEntry, change: StateChange) {
+        entry.listeners.forEach((listener) => {
+            try {
+                listener(entry.value, change);
+            } catch (err) {
+                this.transport.log.report(err, `Shared state "${entry.name}" listener threw`);
+            }
+        });
+    }
+
+    private resync(entry: StateEntry) {
+        this.transport.sync(entry.name).then((snapshot) => {
+            if (snapshot && this.entries.get(entry.name) === entry) this.adopt(entry, snapshot, this.transport.ownerId());
+        }, (err) => {
+            this.transport.log.warn(`Failed to sync shared state "${entry.name}"`, { error: err });
+        });
+    }
+
+    // 子页面处理主页面广播的 state 帧
+    public handleFrame(message: IframeMessage) {
+        const frame = message.data as StateFrame | null;
+        const entry = frame && typeof frame.name === 'string' ? this.entries.get(frame.name) : undefined;
+        if (!entry || this.transport.isOwner() || typeof frame?.version !== 'number') return;
+        const by = frame.by || message.sourceId || '';
+        if (!frame.patch) {
+            this.adopt(entry, { version: frame.version, value: frame.value }, by);
+            return;
+        }
+        if (frame.version <= entry.version) return;
+        if (frame.version !== entry.version + 1 || !isValidPatch(frame.patch)) {
+            // 错过了中间版本（如断开期间），重新同步完整快照
+            this.resync(entry);
+            return;
+        }
+        this.applyChange(entry, frame.patch, frame.version, by);
+    }
+
+    // 握手完成（含重连）后，以应答附带的快照或重新同步追上主页面的最新版本
+    public handleHandshake(states?: Record<string, StateSnapshot>) {
+        this.entries.forEach((entry) => {
+            const snapshot = states?.[entry.name];
+            if (snapshot && typeof snapshot.version === 'number') {
+                this.adopt(entry, snapshot, this.transport.ownerId());
+            } else {
+                this.resync(entry);
+            }
+        });
+    }
+
+    public snapshot(): Record<string, StateSnapshot> {
+        const states: Record<string, StateSnapshot> = {};
+        this.entries.forEach((entry) => {
+            states[entry.name] = { version: entry.version, value: entry.value };
+        });
+        return states;
+    }
+
+    public getSnapshot(name: string): StateSnapshot | null {
+        const entry = this.entries.get(name);
+        return entry && this.transport.isOwner() ? { version: entry.version, value: entry.value } : null;
+    }
+
+    // 主页面审批子页面的提议；审批为异步时，期间版本变化同样视为冲突
+    public async handleProposal(proposal: StateProposal, sourceId: string): Promise<ProposalReply> {
+        const entry = proposal && this.transport.isOwner() ? this.entries.get(proposal.name) : undefined;
+        if (!entry) {
+            return { accepted: false, code: 'unknown-state', reason: `Shared state "${proposal?.name}" does not exist` };
+        }
+        if (!isValidPatch(proposal.patch)) {
+            return { accepted: false, code: 'rejected', reason: 'Malformed state patch', snapshot: this.getSnapshot(entry.name) || undefined };
+        }
+        const conflict = (): ProposalReply => ({
+            accepted: false,
+            code: 'conflict',
+            reason: `Proposal is based on version ${proposal.base}, current version is ${entry.version}`,
+            snapshot: { version: entry.version, value: entry.value },
+        });
+        if (proposal.base !== entry.version) return conflict();
+        if (entry.approve) {
+            const verdict = await entry.approve({ value: applyPatch(entry.value, proposal.patch), patch: proposal.patch, sourceId });
+            if (verdict !== true) {
+                const reason = typeof verdict === 'string' ? verdict : 'Proposal rejected by host';
+                return { accepted: false, code: 'rejected', reason, snapshot: { version: entry.version, value: entry.value } };
+            }
+            if (proposal.base !== entry.version) return conflict();
+        }
+        this.commit(entry, proposal.patch, sourceId);
+        return { accepted: true, version: entry.version };
+    }
+
+    public destroy() {
+        this.entries.forEach((entry) => entry.listeners.clear());
+        this.entries.clear();
+    }
+}
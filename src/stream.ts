@@ -0,0 +1,346 @@
+import type { IframeMessage, IncomingStream, OutgoingStream, SerializedError, StreamOptions, StreamProgress } from './type';
+import { RemoteError, StreamCancelledError, serializeError } from './errors';
+
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+const DEFAULT_STREAM_WINDOW = 8;
+
+export type StreamSource = AsyncIterable<unknown> | Iterable<unknown> | ReadableStream<unknown>;
+
+// 流控制帧，作为 type 为 'stream' 的消息的 data
+export interface StreamFrame {
+    op: 'open' | 'chunk' | 'ack' | 'end' | 'cancel' | 'error';
+    seq?: number;
+    chunk?: unknown;
+    count?: number; // ack: 已消费的分片数（累计）；end: 分片总数
+    meta?: unknown;
+    total?: number;
+    reason?: string;
+    error?: SerializedError;
+}
+
+export interface StreamTransport {
+    // 发送控制帧，返回消息 key（open 帧的 key 即 stream id）
+    send(targetId: string, frame: StreamFrame, extra: { streamId?: string; event?: string; transfer?: Transferable[] }): string;
+    emit(message: IframeMessage): void;
+}
+
+interface OutgoingState {
+    id: string;
+    targetId: string;
+    sent: number;
+    acked: number;
+    sentBytes: number;
+    total?: number;
+    window: number;
+    cancelled: Error | null;
+    wake: (() => void) | null;
+    onProgress?: (progress: StreamProgress) => void;
+}
+
+interface IncomingState {
+    id: string;
+    sourceId: string;
+    expected: number; // 下一个待入队的分片序号
+    ackedCount: number;
+    buffer: Map<number, unknown>;
+    endCount: number | null;
+    controller: ReadableStreamDefaultController<unknown> | null;
+    closed: boolean;
+}
+
+function sizeOf(chunk: unknown): number {
+    if (typeof chunk === 'string') return chunk.length;
+    if (chunk instanceof ArrayBuffer) return chunk.byteLength;
+    if (ArrayBuffer.isView(chunk)) return chunk.byteLength;
+    return 0;
+}
+
+// 字符串按字符、二进制按字节切分，其余值作为单个分片
+export function splitChunk(value: unknown, chunkSize: number): unknown[] {
+    if (typeof value === 'string') {
+        if (value.length <= chunkSize) return [value];
+        const parts: string[] = [];
+        for (let i = 0; i < value.length; i += chunkSize) parts.push(value.slice(i, i + chunkSize));
+        return parts;
+    }
+    if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+        const bytes = value instanceof ArrayBuffer
+            ? new Uint8Array(value)
+            : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+        const parts: Uint8Array[] = [];
+        for (let i = 0; i < bytes.length; i += chunkSize) parts.push(bytes.slice(i, i + chunkSize));
+        return parts.length ? parts : [new Uint8Array(0)];
+    }
+    return [value];
+}
+
+async function* iterate(source: StreamSource): AsyncGenerator<unknown> {
+    if (typeof (source as ReadableStream).getReader === 'function') {
+        const reader = (source as ReadableStream<unknown>).getReader();
+        try {
+            while (true) {
+                // eslint-disable-next-line no-await-in-loop
+                const { done, value } = await reader.read();
+                if (done) return;
+                yield value;
+            }
+        } finally {
+            reader.releaseLock();
+        }
+    }
+    yield* source as AsyncIterable<unknown> | Iterable<unknown>;
+}
+
+export class StreamManager {
+    private transport: StreamTransport;
+    private outgoing: Map<string, OutgoingState> = new Map();
+    private incoming: Map<string, IncomingState> = new Map();
+
+    constructor(transport: StreamTransport) {
+        this.transport = transport;
+    }
+
+    public send(targetId: string, source: StreamSource, options: StreamOptions = {}): OutgoingStream {
+        const { event, meta, total, onProgress, signal } = options;
+        const chunkSize = options.chunkSize && options.chunkSize > 0 ? options.chunkSize : DEFAULT_CHUNK_SIZE;
+        const windowSize = options.window && options.window > 0 ? options.window : DEFAULT_STREAM_WINDOW;
+        const timeout = options.timeout && options.timeout > 0 ? options.timeout : 0;
+
+        const id = this.transport.send(targetId, { op: 'open', meta, total }, { event });
+        const state: OutgoingState = {
+            id, targetId, sent: 0, acked: 0, sentBytes: 0, total, window: windowSize, cancelled: null, wake: null, onProgress,
+        };
+        this.outgoing.set(id, state);
+
+        const cancel = (reason = 'cancelled by sender') => {
+            if (state.cancelled || !this.outgoing.has(id)) return;
+            this.transport.send(targetId, { op: 'cancel', reason }, { streamId: id });
+            this.abort(state, new StreamCancelledError(reason));
+        };
+        if (signal) {
+            if (signal.aborted) cancel('aborted');
+            else signal.addEventListener('abort', () => cancel('aborted'), { once: true });
+        }
+
+        const done = this.pump(state, source, chunkSize, timeout);
+        done.catch(() => undefined);
+        return { id, done, cancel };
+    }
+
+    private async pump(state: OutgoingState, source: StreamSource, chunkSize: number, timeout: number): Promise<void> {
+        const { id, targetId } = state;
+        try {
+            for await (const item of iterate(source)) {
+                for (const chunk of splitChunk(item, chunkSize)) {
+                    // 未确认的分片达到窗口大小时等待接收方 ack（背压）
+                    while (!state.cancelled && state.sent - state.acked >= state.window) {
+                        // eslint-disable-next-line no-await-in-loop
+                        await this.waitForAck(state, timeout);
+                    }
+                    if (state.cancelled) throw state.cancelled;
+                    const transfer = chunk instanceof Uint8Array ? [chunk.buffer] : undefined;
+                    state.sentBytes += sizeOf(chunk);
+                    this.transport.send(targetId, { op: 'chunk', seq: state.sent, chunk }, { streamId: id, transfer });
+                    state.sent += 1;
+                }
+            }
+            if (state.cancelled) throw state.cancelled;
+            this.transport.send(targetId, { op: 'end', count: state.sent }, { streamId: id });
+
+            // 等待全部分片被确认
+            while (!state.cancelled && state.acked < state.sent) {
+                // eslint-disable-next-line no-await-in-loop
+                await this.waitForAck(state, timeout);
+            }
+            if (state.cancelled) throw state.cancelled;
+        } catch (err) {
+            if (!state.cancelled) {
+                // 数据源出错：通知接收方
+                this.transport.send(targetId, { op: 'error', error: serializeError(err) }, { streamId: id });
+            }
+            throw err;
+        } finally {
+            this.outgoing.delete(id);
+        }
+    }
+
+    // 目标不可达或已失联时收不到 ack：超时后通知接收方并取消流，避免 done 永远挂起
+    private waitForAck(state: OutgoingState, timeout: number): Promise<void> {
+        return new Promise<void>((resolve) => {
+            const timer = timeout > 0
+                ? setTimeout(() => {
+                    const reason = `no ack from ${state.targetId} within ${timeout}ms`;
+                    this.transport.send(state.targetId, { op: 'cancel', reason }, { streamId: state.id });
+                    this.abort(state, new StreamCancelledError(reason));
+                }, timeout)
+                : null;
+            state.wake = () => {
+                if (timer) clearTimeout(timer);
+                resolve();
+            };
+        });
+    }
+
+    private abort(state: OutgoingState, reason: Error) {
+        state.cancelled = reason;
+        const wake = state.wake;
+        state.wake = null;
+        wake?.();
+    }
+
+    // 流被中继页面拒绝（如访问控制策略）或其分片、确认被限流丢弃时结束
+    public reject(id: string, reason: Error) {
+        const outgoing = this.outgoing.get(id);
+        if (outgoing) this.abort(outgoing, reason);
+        const incoming = this.incoming.get(id);
+        if (incoming) this.failIncoming(incoming, reason);
+    }
+
+    // 只接受流的对端发来的控制帧，其他页面即使知道 stream id 也无法注入或取消
+    public handleFrame(message: IframeMessage) {
+        const frame = message.data as StreamFrame | null;
+        if (!frame || typeof frame.op !== 'string') return;
+        const id = frame.op === 'open' ? message.key : message.streamId;
+        if (!id) return;
+        const { sourceId } = message;
+        const incoming = this.incoming.get(id);
+        const fromSender = !!incoming && incoming.sourceId === sourceId;
+        const outgoing = this.outgoing.get(id);
+        const fromReceiver = !!outgoing && outgoing.targetId === sourceId;
+
+        switch (frame.op) {
+            case 'open':
+                this.openIncoming(id, message, frame);
+                break;
+            case 'chunk':
+                if (fromSender) this.receiveChunk(incoming as IncomingState, frame);
+                break;
+            case 'end': {
+                if (!fromSender) return;
+                const state = incoming as IncomingState;
+                state.endCount = frame.count ?? state.expected;
+                this.maybeClose(state);
+                break;
+            }
+            case 'error':
+            case 'cancel': {
+                if (fromSender) {
+                    const reason = frame.op === 'error' && frame.error
+                        ? new RemoteError(frame.error)
+                        : new StreamCancelledError(frame.reason || 'cancelled by sender');
+                    this.failIncoming(incoming as IncomingState, reason);
+                    return;
+                }
+                // 接收方取消：通知发送方停止
+                if (fromReceiver) this.abort(outgoing as OutgoingState, new StreamCancelledError(frame.reason || 'cancelled by receiver'));
+                break;
+            }
+            case 'ack': {
+                const state = outgoing as OutgoingState;
+                if (!fromReceiver || typeof frame.count !== 'number' || frame.count <= state.acked) return;
+                state.acked = Math.min(frame.count, state.sent);
+                state.onProgress?.({ id, sentChunks: state.sent, ackedChunks: state.acked, sentBytes: state.sentBytes, total: state.total });
+                const wake = state.wake;
+                state.wake = null;
+                wake?.();
+                break;
+            }
+            default:
+        }
+    }
+
+    private openIncoming(id: string, message: IframeMessage, frame: StreamFrame) {
+        if (this.incoming.has(id) || !message.sourceId) return;
+        const state: IncomingState = {
+            id,
+            sourceId: message.sourceId,
+            expected: 0,
+            ackedCount: 0,
+            buffer: new Map(),
+            endCount: null,
+            controller: null,
+            closed: false,
+        };
+        this.incoming.set(id, state);
+
+        const stream = new ReadableStream<unknown>({
+            start: (controller) => {
+                state.controller = controller;
+            },
+            pull: () => this.flushAck(state),
+            cancel: (reason) => this.cancelIncoming(state, reason ? String(reason) : 'cancelled by receiver'),
+        }, { highWaterMark: DEFAULT_STREAM_WINDOW });
+
+        const incoming: IncomingStream = {
+            id,
+            sourceId: state.sourceId,
+            meta: frame.meta,
+            total: frame.total,
+            stream,
+            cancel: (reason = 'cancelled by receiver') => this.cancelIncoming(state, reason),
+        };
+        this.transport.emit({ ...message, data: incoming });
+    }
+
+    // 乱序到达的分片先缓存，按序号连续入队
+    private receiveChunk(state: IncomingState, frame: StreamFrame) {
+        if (state.closed || typeof frame.seq !== 'number' || frame.seq < state.expected) return;
+        state.buffer.set(frame.seq, frame.chunk);
+        while (state.buffer.has(state.expected)) {
+            state.controller?.enqueue(state.buffer.get(state.expected));
+            state.buffer.delete(state.expected);
+            state.expected += 1;
+        }
+        if ((state.controller?.desiredSize ?? 0) > 0) this.flushAck(state);
+        this.maybeClose(state);
+    }
+
+    private flushAck(state: IncomingState) {
+        if (state.closed || state.expected <= state.ackedCount) return;
+        state.ackedCount = state.expected;
+        this.transport.send(state.sourceId, { op: 'ack', count: state.expected }, { streamId: state.id });
+    }
+
+    private maybeClose(state: IncomingState) {
+        if (state.closed || state.endCount === null || state.expected < state.endCount) return;
+        this.flushAck(state);
+        state.closed = true;
+        state.controller?.close();
+        this.incoming.delete(state.id);
+    }
+
+    private cancelIncoming(state: IncomingState, reason: string) {
+        if (state.closed) return;
+        this.transport.send(state.sourceId, { op: 'cancel', reason }, { streamId: state.id });
+        this.failIncoming(state, new StreamCancelledError(reason));
+    }
+
+    private failIncoming(state: IncomingState, reason: Error) {
+        if (state.closed) return;
+        state.closed = true;
+        try {
+            state.controller?.error(reason);
+        } catch {
+            /* already closed */
+        }
+        this.incoming.delete(state.id);
+    }
+
+    // 对端断开或被移除：与其相关的流全部以错误结束，peerIds 为空时结束所有流
+    public dropPeer(peerIds: string[] | null, reason: Error) {
+        const affected = (id: string) => !peerIds || peerIds.includes(id);
+        this.outgoing.forEach((state) => {
+            if (affected(state.targetId)) this.abort(state, reason);
+        });
+        this.incoming.forEach((state) => {
+            if (affected(state.sourceId)) this.failIncoming(state, reason);
+        });
+    }
+
+    public destroy() {
+        this.outgoing.forEach((state) => this.abort(state, new StreamCancelledError('IframeBridge has been destroyed')));
+        this.incoming.forEach((state) => this.failIncoming(state, new StreamCancelledError('IframeBridge has been destroyed')));
+        this.outgoing.clear();
+        this.incoming.clear();
+    }
+}
@@ -1,14 +1,170 @@
+import type { Codec } from './codec';
+
 export type PageType = 'main' | 'iframe';
-export type MessageType = 'register' | 'message' | string;
+// lifecycle 为本地派发的生命周期事件，不经过 postMessage
+export type MessageType =
+  | 'register'
+  | 'message'
+  | 'request'
+  | 'response'
+  | 'route'
+  | 'disconnect'
+  | 'ping'
+  | 'pong'
+  | 'lifecycle'
+  | 'stream'
+  | 'error'
+  | 'ack'
+  | 'state'
+  | 'port'
+  | string;
+
+export type LifecycleEvent =
+  | 'connected'
+  | 'disconnected'
+  | 'reconnected'
+  | 'peer:added'
+  | 'peer:removed'
+  | 'peer:timeout'
+  | 'peer:throttled'
+  | 'delivery:failed';
+
+export type DeliveryErrorCode = 'timeout' | 'unsupported' | 'destroyed';
+
+// conflict：提议基于过期的版本；rejected：主页面未批准；unknown-state：主页面没有该共享状态
+export type SharedStateErrorCode = 'conflict' | 'rejected' | 'unknown-state';
+
+// 入站队列已满时的处理：丢弃最早的帧、丢弃新到的帧，或断开发来该帧的页面
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'disconnect';
+
+// peer:throttled 事件 data 中的原因
+export type ThrottleReason = 'rate-limited' | 'queue-overflow' | 'payload-too-large';
+
+// 字符串支持 '*' 通配（如 'https://*.example.com'），也可为正则或判定函数
+export type OriginMatcher = string | RegExp | ((origin: string) => boolean);
+
+export type SecurityViolationReason =
+  | 'origin-not-allowed' // 来源不在白名单
+  | 'origin-mismatch' // 来源与注册时绑定的来源不一致
+  | 'source-mismatch' // event.source 不是绑定的窗口
+  | 'unverifiable' // 缺少 event.origin / event.source，无法校验
+  | 'invalid-signature'; // 签名校验或解密失败
+
+export interface SecurityViolation {
+  reason: SecurityViolationReason;
+  origin: string; // 浏览器提供的 event.origin
+  expectedOrigin?: string;
+  sourceId?: string;
+  lastHop?: string; // 直接发来该帧的页面 id
+  type?: MessageType;
+  key?: string;
+  dropped: boolean; // 是否已丢弃该帧（严格模式或注册请求）
+}
+
+// sign：HMAC 签名；encrypt：AES-GCM 加密（同时保证完整性）
+export type SecurityMode = 'sign' | 'encrypt';
+
+export interface MessageSeal {
+  alg: 'hmac-sha256' | 'aes-gcm';
+  signer: string; // 签名页面 id
+  recipient: string; // 密钥对应的接收页面 id
+  iv?: string;
+  sig?: string;
+}
+
+// 目标、channel、方法条目支持 '*' 与前缀通配（如 'chat:*'），未配置的项不做限制
+export interface PeerPolicy {
+  targets?: string[]; // 允许发送消息的目标页面 id
+  channels?: string[]; // 允许使用的 event / 消息类型
+  methods?: string[]; // 允许调用的 request 方法
+  maxSize?: number; // 单条消息 data 的最大字节数（估算）
+  rateLimit?: {
+    count: number; // interval 内最多发送的消息数
+    interval: number; // 毫秒
+  };
+}
+
+export interface AccessPolicy {
+  default?: PeerPolicy; // 未单独配置的页面
+  peers?: Record<string, PeerPolicy>;
+}
+
+// 被策略拒绝时回给发送方的 error 帧 data，replyTo 为被拒绝消息的 key
+export interface PolicyDenial {
+  code: 'forbidden' | ThrottleReason;
+  reason: string;
+  key?: string;
+  targetId?: string;
+}
 
 export interface IframeBridgeOptions {
   iframeId?: string;
   origin?: string;
-  originWhitelist?: string[] | undefined; // undefined 表示不启用白名单校验
+  originWhitelist?: OriginMatcher[] | undefined; // undefined 表示不启用白名单校验
+  strict?: boolean; // 严格模式：校验失败或无法校验的帧直接丢弃，否则仅告警
+  onSecurityViolation?: (violation: SecurityViolation) => void;
   type?: PageType;
   lifecycle?: {
     autoDestroy?: boolean;
   };
+  requestTimeout?: number; // request() 默认超时（毫秒）
+  host?: boolean; // iframe 页面同时作为其子 iframe 的上级（中间层），接受注册并转发
+  maxHops?: number; // 消息最大跳数，超过即丢弃
+  groups?: string[]; // 注册时声明的分组，可作为多播目标
+  capabilities?: string[]; // 握手时声明的能力
+  metadata?: Record<string, unknown>; // 注册时随握手提交给上级页面的自定义信息，可通过 getPeer / queryPeers 查询
+  codec?: string | Codec; // 'structured'（默认）| 'json' | 'base64-json' | 'extended-json' 或自定义 codec
+  reconnect?: {
+    retryDelay?: number; // 子页面注册重试的初始间隔（毫秒），按指数退避
+    maxRetryDelay?: number;
+    maxRetries?: number; // 默认无限重试直到收到应答
+  };
+  heartbeat?: {
+    interval?: number; // ping 间隔（毫秒）
+    maxMissed?: number; // 连续未响应次数达到该值即判定超时
+  };
+  policy?: AccessPolicy; // host 页面对其后代页面发出的消息执行的访问控制策略
+  // host 页面对直接子页面（链路）入站帧的限制，超出时丢弃并派发 peer:throttled 事件
+  limits?: {
+    rate?: {
+      count: number; // interval 内每个子页面最多发来的帧数（令牌桶）
+      interval: number; // 毫秒
+    };
+    maxQueueLength?: number; // 每个子页面在入站消息队列与注册队列中的排队上限，默认 1000
+    overflow?: OverflowPolicy; // 默认 'drop-newest'
+    maxPayloadSize?: number; // 单帧 data 的最大字节数（估算），在解码前检查
+  };
+  // sendMessage({ reliable: true }) 的重发与期限设置
+  delivery?: {
+    retryDelay?: number; // 首次重发间隔（毫秒），按指数退避，默认 1000
+    maxRetryDelay?: number; // 默认 10000
+    deadline?: number; // 默认在发送后 30 秒内未确认即失败
+    persist?: boolean; // 未确认的消息写入 sessionStorage，页面重新加载后继续重发
+  };
+  replay?: {
+    size?: number; // 记录的已见消息 key 数量上限，默认 1000
+    maxAge?: number; // 消息最大存活时间（毫秒），超过即丢弃，<= 0 表示不检查，默认 5 分钟
+    clockSkew?: number; // 允许时间戳超前本地时钟的毫秒数，默认 30 秒
+  };
+  // 开启后握手时交换 ECDH 公钥，用户消息端到端签名或加密，上下级页面须同时开启
+  security?: {
+    mode?: SecurityMode; // 默认 'sign'
+  };
+  // 握手时为每个子页面建立专用 MessagePort，之后该链路的帧都经由端口收发；默认开启，不支持时退回 window 消息
+  ports?: boolean;
+  // 入站数据的运行时校验，未通过的 message 在到达监听器前丢弃，request 以 ValidationError 回复
+  validators?: {
+    events?: Record<string, Validator>; // event => data 校验器
+    methods?: Record<string, { params?: Validator; result?: Validator }>; // result 在请求方校验
+  };
+  logger?: Logger; // 默认输出到 console
+  logLevel?: LogLevel; // 默认 'warn'
+  // 调试记录（每帧的收发、路由等）默认关闭：true 开启全部命名空间，或逗号分隔的命名空间，支持 '*' 通配与 '-' 排除，如 'transport,handshake'
+  debug?: boolean | string;
+  // 运行期错误（来源被拒、目标不存在、解码失败、重复注册、监听器抛错等）的回调，可接入监控上报
+  onError?: (error: Error, record: LogRecord) => void;
+  // 创建时即开启流量记录（包括握手），也可之后调用 inspect() 开启
+  inspector?: boolean | InspectorOptions;
 }
 
 
@@ -21,11 +177,348 @@ export interface IframeMessage {
   origin?: string;
   path?: string[];
   data?: unknown; // 存放编码后的数据（base64字符串）
-  encoded?: boolean; // 数据是否经过编码
+  encoded?: boolean; // 旧版本消息的编码标记，新消息以 codec 为准
+  codec?: string; // data 使用的编解码器 id
   timestamp?: number;
+  event?: string; // 用户层事件/主题，用于 on(channel) 分发
+  method?: string; // request 消息调用的方法名
+  replyTo?: string; // response / 注册应答对应的 request key
+  route?: string[]; // 显式回程路由（按跳顺序的页面 id）
+  targets?: string[]; // 多播目标页面 id 列表（此时 targetId 为 '*'）
+  exclude?: string[]; // 多播时排除的页面 id
+  token?: string; // 握手分配的会话令牌，每一跳按链路重新写入
+  transfer?: Transferable[]; // 随消息转移的对象，中继页面转发时沿用
+  streamId?: string; // stream 控制帧所属的流（即 open 帧的 key）
+  seal?: MessageSeal; // 开启 security 时的签名/加密信息
+  reliable?: boolean; // 接收方须按 key 回 ack
+  multicast?: boolean; // 主页面展开多播后发给单个接收方的副本
+}
+
+export interface SendOptions {
+  type?: MessageType;
+  transfer?: Transferable[];
+  reliable?: boolean; // 等待接收方 ack，未确认时重发，返回的 Promise 在 ack 后 resolve；不能与多播或 transfer 同用
+  deadline?: number; // 覆盖 delivery.deadline（毫秒）
+}
+
+// 子页面注册时发送的握手信息
+export interface HandshakeRequest {
+  protocolVersion: number;
+  minProtocolVersion: number;
+  codecs: string[];
+  capabilities: string[];
+  groups: string[];
+  publicKey?: string; // 开启 security 时的 ECDH 公钥（raw，base64）
+  ports?: boolean; // 可以接收专用 MessagePort
+  metadata?: Record<string, unknown>;
+}
+
+export interface HandshakeResult {
+  version: number;
+  codec: string;
+  sessionToken: string;
+  capabilities: string[]; // 对端（上级页面）声明的能力
+  publicKey?: string; // 上级页面的 ECDH 公钥
+  rootPublicKey?: string; // 主页面的 ECDH 公钥，用于向主页面查询其他页面的公钥
+  states?: Record<string, StateSnapshot>; // 主页面应答时附带的共享状态快照
+  port?: boolean; // 应答帧的 transfer 中附带了该链路的专用 MessagePort
+}
+
+export type HandshakeReply =
+  | ({ accepted: true } & HandshakeResult)
+  | { accepted: false; reason: string };
+
+// '*' 表示全部已注册页面；也可为页面 id、分组名或页面 id 数组
+export type MessageTarget = string | string[];
+
+export interface OutgoingMessage extends Omit<IframeMessage, 'targetId'> {
+  targetId?: MessageTarget;
+}
+
+export interface BroadcastOptions {
+  exclude?: string[];
+  event?: string;
+}
+
+export type MessageListener = (msg: IframeMessage) => void;
+
+// on() 收到的消息，data 为按 schema 推断的类型
+export type TypedMessage<T> = Omit<IframeMessage, 'data'> & { data: T };
+
+// 类型化消息契约：events 为 event => data 类型，methods 为方法名 => 参数与返回值类型
+export interface BridgeSchema {
+  events?: Record<string, unknown>;
+  methods?: Record<string, { params?: unknown; result?: unknown }>;
+}
+
+// 未声明契约时的默认 schema，等价于不做类型约束
+export interface UntypedSchema {
+  events: Record<string, unknown>;
+  methods: Record<string, { params?: unknown; result?: unknown }>;
+}
+
+type SchemaEvents<S extends BridgeSchema> = NonNullable<S['events']>;
+type SchemaMethods<S extends BridgeSchema> = NonNullable<S['methods']>;
+
+export type EventName<S extends BridgeSchema> = Extract<keyof SchemaEvents<S>, string>;
+export type EventData<S extends BridgeSchema, E extends string> = E extends keyof SchemaEvents<S> ? SchemaEvents<S>[E] : unknown;
+export type MethodName<S extends BridgeSchema> = Extract<keyof SchemaMethods<S>, string>;
+export type MethodParams<S extends BridgeSchema, M extends string> = M extends keyof SchemaMethods<S>
+  ? SchemaMethods<S>[M] extends { params?: infer P } ? P : unknown
+  : unknown;
+export type MethodResult<S extends BridgeSchema, M extends string> = M extends keyof SchemaMethods<S>
+  ? SchemaMethods<S>[M] extends { result?: infer R } ? R : unknown
+  : unknown;
+
+// schema 未声明任何 event / 方法名（即 string）时放行任意名称，否则为 never
+export type LooseName<N extends string> = string extends N ? string : never;
+
+// 生命周期事件、内置消息类型与通配 channel 不受 schema 约束
+export type SystemChannel = LifecycleEvent | 'message' | 'stream' | 'error' | 'register' | '*' | `${string}:*`;
+
+// 兼容 Standard Schema（zod、valibot、arktype 等均已实现）的校验器接口
+export interface StandardIssue {
+  message: string;
+  path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+}
+
+export type StandardResult<T> = { value: T; issues?: undefined } | { issues: ReadonlyArray<StandardIssue> };
+
+export interface StandardSchema<T = unknown> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardResult<T> | Promise<StandardResult<T>>;
+    readonly types?: { readonly input: unknown; readonly output: T };
+  };
+}
+
+// 校验函数返回 true 表示通过，返回 false 或错误描述字符串表示不通过
+export type Validator<T = unknown> = StandardSchema<T> | ((value: unknown) => boolean | string);
+
+export interface PeerStatus {
+  id: string;
+  connected: boolean;
+  lastSeen: number; // 最近一次收到该页面消息的时间戳
+  latency: number | null; // 最近一次 ping 的往返时延（毫秒）
+  missedBeats: number;
+}
+
+// 上级页面注册表中的一个直接子页面
+export interface PeerInfo {
+  id: string;
+  origin: string;
+  iframe: HTMLIFrameElement | null; // 绑定的 iframe 元素；弹出窗口、尚未找到元素或经由 queryPeers 查询时为 null
+  window: WindowProxy | null; // 注册请求来自的窗口；经由 queryPeers 查询时为 null
+  registeredAt: number;
+  lastSeen: number;
+  connected: boolean;
+  groups: string[];
+  capabilities: string[];
+  metadata: Record<string, unknown>; // 注册时提交的 metadata
+}
+
+export type PeerRemovalReason = 'unregistered' | 'removed'; // 调用 unregister() / iframe 元素离开文档
+
+// attach() 的目标：iframe 元素、window.open 返回的窗口，或在元素出现后再绑定的 CSS 选择器（可匹配 open shadow root 内的元素）
+export type AttachTarget = HTMLIFrameElement | WindowProxy | string;
+
+export interface AttachOptions {
+  id: string; // 该页面注册时使用的 iframeId
+  origin: string; // 该页面的来源，'*' 表示不校验
+}
+
+// 入站消息去重与时效检查的统计
+export interface ReplayMetrics {
+  delivered: number;
+  duplicates: number; // 因 key 重复丢弃
+  stale: number; // 因超过 maxAge 丢弃
+  future: number; // 因时间戳超前丢弃
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+// 结构化日志记录，namespace 为产生记录的子系统（如 'transport'、'handshake'、'security'）
+export interface LogRecord {
+  level: Exclude<LogLevel, 'silent'>;
+  namespace: string;
+  message: string;
+  bridgeId: string; // 产生记录的页面 id
+  timestamp: number;
+  peerId?: string;
+  key?: string;
+  direction?: 'in' | 'out';
+  type?: MessageType;
+  size?: number; // data 的估算字节数
+  latency?: number; // 入站帧自发出以来的毫秒数，或请求的往返耗时
+  error?: unknown;
+}
+
+export interface Logger {
+  debug(message: string, record: LogRecord): void;
+  info(message: string, record: LogRecord): void;
+  warn(message: string, record: LogRecord): void;
+  error(message: string, record: LogRecord): void;
+}
+
+export type MiddlewareDirection = 'inbound' | 'outbound' | 'relay';
+
+export interface MiddlewareContext {
+  direction: MiddlewareDirection;
+  bridgeId: string; // 执行中间件的页面 id
+}
+
+// 返回新的消息对象替换原消息，返回 false 丢弃该消息（后续中间件不再执行），抛错或 reject 视为拒绝
+export type MiddlewareHook = (
+  message: IframeMessage,
+  context: MiddlewareContext,
+) => IframeMessage | void | false | Promise<IframeMessage | void | false>;
+
+export interface Middleware {
+  name?: string;
+  outbound?: MiddlewareHook; // 本页面发出的帧，编码与签名之前
+  inbound?: MiddlewareHook; // 发往本页面的帧，校验与解码之后、派发之前
+  relay?: MiddlewareHook; // 经本页面转发的帧，data 保持编码后的形式
+}
+
+export interface InspectorOptions {
+  size?: number; // 环形缓冲保留的帧数，默认 500
+  payloads?: boolean; // 是否记录解码后的 data，默认 true
+}
+
+// in：收到的帧；out：本页面发出的帧；relay：本页面转发的其他页面的帧
+export type TrafficDirection = 'in' | 'out' | 'relay';
+
+export interface TrafficEntry {
+  seq: number;
+  time: number; // 记录时间戳
+  direction: TrafficDirection;
+  transport: 'window' | 'port' | 'direct';
+  type?: MessageType;
+  key?: string;
+  sourceId?: string;
+  targetId?: string;
+  event?: string;
+  method?: string;
+  replyTo?: string;
+  streamId?: string;
+  path: string[];
+  size: number; // data 的估算字节数
+  latency?: number; // 入站帧自发出以来的毫秒数
+  data?: unknown; // 解码后的 data 快照；加密帧为密文
+}
+
+export interface TrafficRecording {
+  version: 1;
+  bridgeId: string; // 录制页面的 id
+  startedAt: number;
+  entries: TrafficEntry[];
+}
+
+export interface ReplayOptions {
+  speed?: number; // 按录制时的间隔回放的倍速，默认 0 表示不等待
+  types?: MessageType[]; // 回放的帧类型，默认 message / request / stream / state / error
+}
+
+export interface RequestOptions {
+  timeout?: number; // 毫秒，<= 0 表示不超时
+  transfer?: Transferable[];
+}
+
+export type RequestHandler = (params: unknown, message: IframeMessage) => unknown | Promise<unknown>;
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+// response 消息 data 解码后的结构
+export type ResponsePayload =
+  | { ok: true; result?: unknown }
+  | { ok: false; error: SerializedError };
+
+export interface StreamProgress {
+  id: string;
+  sentChunks: number;
+  ackedChunks: number; // 接收方已确认的分片数
+  sentBytes: number;
+  total?: number; // 发送方声明的总大小（可选）
+}
+
+export interface StreamOptions {
+  event?: string; // 接收方以该 channel 收到流，默认为 'stream'
+  chunkSize?: number; // 字符串按字符、二进制按字节切分，默认 64KB
+  window?: number; // 未确认分片数上限，默认 8
+  timeout?: number; // 等待接收方确认的超时（毫秒），超时则取消流；默认同 requestTimeout，0 表示不限
+  meta?: unknown; // 随 open 帧发送的描述信息（文件名、类型等）
+  total?: number;
+  onProgress?: (progress: StreamProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface OutgoingStream {
+  id: string;
+  done: Promise<void>; // 全部分片被确认后 resolve，取消或出错时 reject
+  cancel: (reason?: string) => void;
+}
+
+// 接收方 on('stream') 收到的消息 data
+export interface IncomingStream {
+  id: string;
+  sourceId: string;
+  meta?: unknown;
+  total?: number;
+  stream: ReadableStream<unknown>;
+  cancel: (reason?: string) => void;
 }
 
 export interface MessageEventData extends IframeMessage {
   // 用于传递 event.source 时在注册流程中保留
   source?: WindowProxy | null;
+  eventOrigin?: string; // 浏览器提供的 event.origin（区别于发送方自填的 origin 字段）
+}
+
+// 共享状态的修改：path 为属性路径，remove 为 true 时删除该属性，否则写入 value（path 为空即替换整体）
+export interface StatePatchOp {
+  path: string[];
+  value?: unknown;
+  remove?: boolean;
+}
+
+export type StatePatch = StatePatchOp[];
+
+export interface StateSnapshot {
+  version: number;
+  value: unknown;
 }
+
+export interface StateChange {
+  version: number;
+  patch: StatePatch;
+  sourceId: string; // 提出该修改的页面
+}
+
+export interface SharedStateOptions<T> {
+  // 主页面审批其他页面的修改提议，返回 true 表示批准，返回 false 或原因字符串表示拒绝；默认全部批准
+  approve?: (proposal: { value: T; patch: StatePatch; sourceId: string }) => boolean | string | Promise<boolean | string>;
+}
+
+// createSharedState() 的返回值：主页面持有权威副本，其他页面镜像并可提议修改
+export interface SharedState<T> {
+  readonly name: string;
+  readonly version: number; // 主页面每应用一次修改加 1；子页面收到快照前为 0
+  ready: Promise<void>; // 主页面立即 resolve，子页面在收到首个快照后 resolve
+  get(): T;
+  // 主页面直接应用；其他页面向主页面提议，批准并应用后 resolve。传入函数时遇到版本冲突会基于最新状态重试
+  set(next: T | ((current: T) => T)): Promise<void>;
+  subscribe(listener: (value: T, change: StateChange) => void): () => void;
+  destroy(): void;
+}
+
+// remote() 返回的代理类型：方法调用变为返回 Promise 的远程调用，嵌套对象递归代理
+export type Remote<T> = {
+  [K in keyof T]: T[K] extends (...args: infer A) => infer R
+    ? (...args: A) => Promise<Awaited<R>>
+    : T[K] extends object ? Remote<T[K]> : never;
+};
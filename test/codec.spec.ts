@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base64JsonCodec,
+  extendedJsonCodec,
+  getCodec,
+  jsonCodec,
+  registerCodec,
+  resolveLegacyCodec,
+  structuredCodec,
+} from '../src/codec';
+
+describe('codec', () => {
+  it('structured 应原样透传，交给 postMessage 结构化克隆', () => {
+    const data = { d: new Date(0), m: new Map([[1, 2]]) };
+    expect(structuredCodec.decode(structuredCodec.encode(data))).toBe(data);
+  });
+
+  it('json 与 base64-json 应保持字符串与对象（含 Unicode）', () => {
+    const obj = { a: 1, text: 'hello 你好 🌏' };
+    expect(jsonCodec.decode(jsonCodec.encode(obj))).toEqual(obj);
+    const encoded = base64JsonCodec.encode('hello 你好 🌏');
+    expect(encoded).toMatch(/^s:/);
+    expect(base64JsonCodec.decode(encoded)).toBe('hello 你好 🌏');
+    expect(base64JsonCodec.decode(base64JsonCodec.encode(obj))).toEqual(obj);
+  });
+
+  it('extended-json 应保留 Date、Map、Set、BigInt、undefined 与类型化数组', () => {
+    const data = {
+      date: new Date('2024-01-02T03:04:05.000Z'),
+      map: new Map<unknown, unknown>([['k', new Set([1, 2])]]),
+      big: BigInt('12345678901234567890'),
+      missing: undefined,
+      list: [undefined, NaN, -0, Infinity],
+      bytes: new Uint8Array([1, 2, 255]),
+      floats: new Float32Array([1.5]),
+      buffer: new Uint8Array([9, 8]).buffer,
+      re: /a+b/gi,
+      $t: 'plain field',
+    };
+    const decoded = extendedJsonCodec.decode(extendedJsonCodec.encode(data)) as typeof data;
+
+    expect(decoded.date).toBeInstanceOf(Date);
+    expect(decoded.date.getTime()).toBe(data.date.getTime());
+    expect(decoded.map.get('k')).toEqual(new Set([1, 2]));
+    expect(decoded.big).toBe(data.big);
+    expect('missing' in decoded).toBe(true);
+    expect(decoded.missing).toBeUndefined();
+    expect(decoded.list[0]).toBeUndefined();
+    expect(decoded.list[1]).toBeNaN();
+    expect(Object.is(decoded.list[2], -0)).toBe(true);
+    expect(decoded.list[3]).toBe(Infinity);
+    expect(decoded.bytes).toEqual(new Uint8Array([1, 2, 255]));
+    expect(decoded.floats).toEqual(new Float32Array([1.5]));
+    expect(new Uint8Array(decoded.buffer)).toEqual(new Uint8Array([9, 8]));
+    expect(decoded.re).toEqual(/a+b/gi);
+    expect(decoded.$t).toBe('plain field');
+  });
+
+  it('extended-json 遇到结构不符的类型标记时按普通对象解码', () => {
+    const decoded = extendedJsonCodec.decode(JSON.stringify({
+      re: { $t: 'RegExp', v: 'a+' },
+      bytes: { $t: 'Uint8Array', v: ['x'] },
+      date: { $t: 'Date', v: 1 },
+    }));
+    expect(decoded).toEqual({
+      re: { $t: 'RegExp', v: 'a+' },
+      bytes: { $t: 'Uint8Array', v: ['x'] },
+      date: { $t: 'Date', v: 1 },
+    });
+  });
+
+  it('registerCodec 应注册自定义 codec，并校验接口', () => {
+    registerCodec({ id: 'upper', encode: (d) => String(d).toUpperCase(), decode: (d) => String(d).toLowerCase() });
+    expect(getCodec('upper')?.encode('abc')).toBe('ABC');
+    expect(() => registerCodec({ id: 'broken' } as any)).toThrow('Invalid codec');
+  });
+
+  it('不带 codec 的旧消息按 encoded 标记或 s:/o: 前缀推断', () => {
+    expect(resolveLegacyCodec('o:e30=')).toBe(base64JsonCodec);
+    expect(resolveLegacyCodec('anything', true)).toBe(base64JsonCodec);
+    expect(resolveLegacyCodec({ a: 1 })).toBe(structuredCodec);
+  });
+});
@@ -1,15 +1,57 @@
 // src/__tests__/iframeBridge.spec.ts
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { IframeBridge } from '../src/iframe-bridge';
-import type { IframeMessage } from '../src/type';
+import type { IframeMessage, IncomingStream, PeerInfo, LogRecord, Logger, MiddlewareContext, SecurityViolation, StateChange, TrafficEntry } from '../src/type';
+import {
+  DecodeError,
+  DeliveryError,
+  DuplicateRegistrationError,
+  HandshakeError,
+  OriginRejectedError,
+  PermissionDeniedError,
+  RemoteError,
+  RequestTimeoutError,
+  SharedStateError,
+  StreamCancelledError,
+  TargetNotFoundError,
+  ValidationError,
+} from '../src/errors';
+import { PROTOCOL_VERSION } from '../src/handshake';
+import { extendedJsonCodec } from '../src/codec';
+import { matchOrigin } from '../src/origin';
+import { runValidator, v } from '../src/schema';
+import { applyPatch, diffState } from '../src/shared-state';
+import { parseRecording } from '../src/inspector';
 
-function makeIframe(id = 'child', origin = 'http://example.com') {
+function makeIframe(id = 'child', origin = 'http://example.com', parent: Node = document.body) {
   const iframe = document.createElement('iframe');
   iframe.setAttribute('data-mock-id', id);
-  document.body.appendChild(iframe);
+  parent.appendChild(iframe);
   return iframe;
 }
 
+// jsdom 的 postMessage 不携带 event.source：这里模拟同窗口中的子页面实例运行在 iframe 内，
+// 子页面发往 parent 的消息带上 iframe 的 contentWindow 作为 source，
+// 主页面发往该 iframe 的消息则回投到当前窗口
+// 只有 postMessage 的窗口替身，可作为 MessageEvent 的 source
+function fakeWindow() {
+  const win: any = { closed: false, postMessage: vi.fn() };
+  win.window = win;
+  return win;
+}
+
+function emulateChildFrame(id: string, parent: Node = document.body) {
+  const iframe = makeIframe(id, undefined, parent);
+  // jsdom 不为 shadow root 内的 iframe 创建窗口，以替身代替
+  if (!iframe.contentWindow) Object.defineProperty(iframe, 'contentWindow', { value: fakeWindow() });
+  const cw = iframe.contentWindow as any;
+  const dispatch = (data: unknown, source: Window) =>
+    setTimeout(() => window.dispatchEvent(new MessageEvent('message', { data, source })), 0);
+  vi.spyOn(window, 'postMessage').mockImplementation((data: unknown) => dispatch(data, cw));
+  cw.postMessage = vi.fn((data: unknown) => dispatch(data, window));
+  return cw.postMessage as ReturnType<typeof vi.fn>;
+}
+
 describe('IframeBridge - 单元与集成测试（每个页面主动注册）', () => {
   beforeEach(() => {
     // 清理 DOM 与全局状态
@@ -95,7 +137,7 @@ describe('IframeBridge - 单元与集成测试（每个页面主动注册）', (
 
   it('子页面发送消息到父页面，父页面应接收并得到已解码的数据', async () => {
     const parent = new IframeBridge({ type: 'main', iframeId: 'main', origin: "*" });
-    makeIframe('child2'); // 确保 DOM 中存在 iframe 元素
+    emulateChildFrame('child2'); // 确保 DOM 中存在 iframe 元素，并模拟 event.source
 
     // 集中接收：只注册一次 onMessage，把所有消息推入数组
     const received: IframeMessage[] = [];
@@ -260,4 +302,2755 @@ describe('IframeBridge - 单元与集成测试（每个页面主动注册）', (
   //   expect((main as any).registeredIframe['anychild']).toBeDefined();
   //   main.destroy();
   // });
-});
\ No newline at end of file
+});
+// 直接在主页面注册表中写入一个已完成握手的子页面，会话令牌为 `token-<id>`，协商结果为主页面自身的 codec
+function linkIframe(main: IframeBridge, id: string, groups: string[] = []) {
+  const iframe = makeIframe(id);
+  const cw = iframe.contentWindow as any;
+  cw.postMessage = vi.fn();
+  (main as any).registeredIframe[id] = {
+    id, iframe, origin: '*', groups, sessionToken: `token-${id}`, version: 1, codec: (main as any).codec.id, capabilities: [],
+    connected: true, registeredAt: 0, onLoad: null, lastSeen: 0, latency: null, missedBeats: 0, pendingPing: null,
+  };
+  return cw.postMessage as ReturnType<typeof vi.fn>;
+}
+
+describe('IframeBridge - request / handle', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('request 应通过 key 关联 response 并 resolve 处理函数的返回值', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('rpc1');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'rpc1', origin: '*' });
+    await child.ready;
+
+    main.handle('sum', async (params) => (params as number[]).reduce((a, b) => a + b, 0));
+    await expect(child.request('main', 'sum', [1, 2, 3])).resolves.toBe(6);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('处理函数抛出的错误应以 RemoteError 形式带回 name/message', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('rpc2');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'rpc2', origin: '*' });
+    await child.ready;
+
+    main.handle('fail', () => {
+      throw new TypeError('bad input');
+    });
+    const err = await child.request('main', 'fail').catch((e) => e);
+    expect(err).toBeInstanceOf(RemoteError);
+    expect(err.remoteName).toBe('TypeError');
+    expect(err.message).toBe('bad input');
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('未收到回复时应按 timeout 拒绝，destroy 时应拒绝进行中的请求', async () => {
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'rpc3', origin: '*' });
+    const timedOut = child.request('main', 'noop', null, { timeout: 20 });
+    await expect(timedOut).rejects.toBeInstanceOf(RequestTimeoutError);
+
+    const inFlight = child.request('main', 'noop', null, { timeout: 0 });
+    child.destroy();
+    await expect(inFlight).rejects.toThrow('destroyed');
+  });
+});
+
+describe('IframeBridge - on / once / off', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('同一 channel 支持多个订阅者，并可通过返回函数或 off 取消订阅', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('ev1');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'ev1', origin: '*' });
+    await child.ready;
+
+    const a = vi.fn();
+    const b = vi.fn();
+    const all = vi.fn();
+    const ns = vi.fn();
+    const unsubscribeA = main.on('theme:change', a);
+    main.on('theme:change', b);
+    main.on('theme:*', ns);
+    main.on('*', all);
+
+    child.send('main', 'theme:change', { dark: true });
+    await vi.waitFor(() => expect(a).toHaveBeenCalled());
+    expect(b).toHaveBeenCalled();
+    expect(ns).toHaveBeenCalled();
+    expect(a.mock.calls[0][0]).toMatchObject({ event: 'theme:change', data: { dark: true } });
+
+    unsubscribeA();
+    main.off('theme:change', b);
+    a.mockClear();
+    b.mockClear();
+    child.send('main', 'theme:change', { dark: false });
+    await vi.waitFor(() => expect(ns).toHaveBeenCalledTimes(2));
+    expect(a).not.toHaveBeenCalled();
+    expect(b).not.toHaveBeenCalled();
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('once 监听器只触发一次', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('ev2');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'ev2', origin: '*' });
+    await child.ready;
+    const cb = vi.fn();
+    const all = vi.fn();
+    main.once('ping', cb);
+    main.on('ping', all);
+
+    child.send('main', 'ping', 1);
+    child.send('main', 'ping', 2);
+    await vi.waitFor(() => expect(all.mock.calls.length).toBeGreaterThanOrEqual(2));
+    expect(cb).toHaveBeenCalledTimes(1);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('主页面注册成功消息应在首个监听器注册后送达', async () => {
+    const main = new IframeBridge({ type: 'main' });
+    await new Promise((r) => setTimeout(r, 10));
+
+    const cb = vi.fn();
+    main.on('register', cb);
+    await vi.waitFor(() => expect(cb).toHaveBeenCalledTimes(1));
+    expect(cb.mock.calls[0][0]).toMatchObject({ type: 'register', data: { accepted: true } });
+
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 多层路由', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('中间层 host 页面应接受子页面注册、向上通告路由并向下转发', async () => {
+    const postSpy = vi.spyOn(window, 'postMessage').mockImplementation(() => { });
+    const widget = new IframeBridge({ type: 'iframe', iframeId: 'widget', host: true, origin: '*' });
+    await vi.waitFor(() => expect(postSpy).toHaveBeenCalled());
+    const registerFrame = postSpy.mock.calls[0][0] as IframeMessage;
+    window.dispatchEvent(new MessageEvent('message', {
+      data: {
+        type: 'register', key: 'ack0', replyTo: registerFrame.key, sourceId: 'main', targetId: 'widget', path: ['main'],
+        data: widget.enCodeMessage({ accepted: true, version: 1, codec: 'structured', sessionToken: 'w-token', capabilities: [] }),
+      },
+    }));
+    await widget.ready;
+
+    const iframe = makeIframe('dash');
+    const cw = iframe.contentWindow as any;
+    cw.postMessage = vi.fn();
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'register', key: 'reg1', sourceId: 'dash', targetId: 'main', origin: '*', path: ['dash'] },
+      source: cw,
+    }));
+    await vi.waitFor(() => expect((widget as any).registeredIframe['dash']).toBeDefined());
+
+    const announcement = postSpy.mock.calls.map(([m]) => m as IframeMessage).find((m) => m.type === 'route');
+    expect(announcement).toBeDefined();
+    expect(announcement!.data).toEqual({ add: ['dash'] });
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'message', key: 'down1', sourceId: 'main', targetId: 'dash', origin: '*', path: ['main'], token: 'w-token' },
+    }));
+    await vi.waitFor(() => expect(cw.postMessage).toHaveBeenCalledWith(expect.objectContaining({ key: 'down1' }), '*'));
+    const forwarded = cw.postMessage.mock.calls.find(([m]: [IframeMessage]) => m.key === 'down1')[0];
+    expect(forwarded.path).toEqual(['main', 'widget']);
+
+    widget.destroy();
+  });
+
+  it('主页面根据路由通告构建路由表，并经由中间层转发到孙页面', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    const widgetPost = linkIframe(main, 'widget');
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'route', key: 'r1', sourceId: 'widget', targetId: 'main', path: ['widget'], token: 'token-widget', data: main.enCodeMessage({ add: ['dash'] }) },
+    }));
+    expect(main.getRoutingTable()).toEqual({ widget: 'widget', dash: 'widget' });
+
+    main.sendMessage({ targetId: 'dash', data: 'hi' });
+    expect(widgetPost).toHaveBeenCalledWith(expect.objectContaining({ targetId: 'dash' }), '*');
+
+    main.destroy();
+  });
+
+  it('请求应沿 path 原路返回，环路与超出跳数的消息应被丢弃', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', maxHops: 3 });
+    const widgetPost = linkIframe(main, 'widget');
+    vi.spyOn(console, 'warn').mockImplementation(() => { });
+    main.handle('echo', (p) => p);
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'request', key: 'q1', method: 'echo', sourceId: 'dash', targetId: 'main', path: ['dash', 'widget'], token: 'token-widget', data: main.enCodeMessage('x') },
+    }));
+    await vi.waitFor(() => expect(widgetPost).toHaveBeenCalled());
+    const response = widgetPost.mock.calls[0][0] as IframeMessage;
+    expect(response).toMatchObject({ type: 'response', replyTo: 'q1', targetId: 'dash', route: ['main', 'widget', 'dash'] });
+
+    widgetPost.mockClear();
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'message', key: 'loop', sourceId: 'widget', targetId: 'widget', path: ['widget', 'main'], token: 'token-widget' },
+    }));
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'message', key: 'far', sourceId: 'a', targetId: 'widget', path: ['a', 'b', 'c'], token: 'token-c' },
+    }));
+    await new Promise((r) => setTimeout(r, 20));
+    expect(widgetPost).not.toHaveBeenCalled();
+
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 广播与多播', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  function setup() {
+    const main = new IframeBridge({ type: 'main', origin: '*', groups: ['hosts'] });
+    const posts = {
+      a: linkIframe(main, 'a', ['editors']),
+      b: linkIframe(main, 'b', ['editors']),
+      c: linkIframe(main, 'c'),
+    };
+    return { main, posts };
+  }
+
+  it('broadcast 应投递到所有已注册页面并支持 exclude', () => {
+    const { main, posts } = setup();
+    main.broadcast({ v: 1 }, { exclude: ['b'] });
+    expect(posts.a).toHaveBeenCalledWith(expect.objectContaining({ targetId: 'a' }), '*');
+    expect(posts.c).toHaveBeenCalledWith(expect.objectContaining({ targetId: 'c' }), '*');
+    expect(posts.b).not.toHaveBeenCalled();
+    main.destroy();
+  });
+
+  it('sendMessage 支持分组名与 id 数组作为目标', () => {
+    const { main, posts } = setup();
+    main.sendMessage({ targetId: 'editors', data: 1 });
+    expect(posts.a).toHaveBeenCalledTimes(1);
+    expect(posts.b).toHaveBeenCalledTimes(1);
+    expect(posts.c).not.toHaveBeenCalled();
+
+    main.sendMessage({ targetId: ['a', 'c'], data: 2 });
+    expect(posts.a).toHaveBeenCalledTimes(2);
+    expect(posts.c).toHaveBeenCalledTimes(1);
+    main.destroy();
+  });
+
+  it('子页面发起的广播由主页面展开，且不回发给发送方', async () => {
+    const { main, posts } = setup();
+    const received = vi.fn();
+    main.on('news', received);
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'message', key: 'bc1', event: 'news', sourceId: 'a', targetId: '*', path: ['a'], token: 'token-a', data: main.enCodeMessage('hello') },
+    }));
+    await vi.waitFor(() => expect(received).toHaveBeenCalled());
+    expect(received.mock.calls[0][0]).toMatchObject({ targetId: 'main', data: 'hello' });
+    expect(posts.a).not.toHaveBeenCalled();
+    expect(posts.b).toHaveBeenCalledWith(expect.objectContaining({ key: 'bc1', targetId: 'b' }), '*');
+    expect(posts.c).toHaveBeenCalledWith(expect.objectContaining({ key: 'bc1', targetId: 'c' }), '*');
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 握手与会话令牌', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('握手完成后双方 ready 均 resolve，并协商出版本、编码与会话令牌', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', capabilities: ['navigation'] });
+    emulateChildFrame('hs1');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'hs1', origin: '*', capabilities: ['print'] });
+
+    const result = await child.ready;
+    expect(result).toMatchObject({ version: PROTOCOL_VERSION, codec: 'structured', capabilities: ['navigation'] });
+    expect(result.sessionToken).toBe((main as any).registeredIframe['hs1'].sessionToken);
+    expect((main as any).registeredIframe['hs1'].capabilities).toEqual(['print']);
+    await expect(main.ready).resolves.toMatchObject({ version: PROTOCOL_VERSION });
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('协议版本不兼容或 id 重复时主页面应回复拒绝帧', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    const cwPost = linkIframe(main, 'dup');
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
+    const source = makeIframe('newcomer').contentWindow as any;
+    source.postMessage = vi.fn();
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'register', key: 'v99', sourceId: 'newcomer', origin: '*', path: ['newcomer'], data: main.enCodeMessage({ protocolVersion: 99, minProtocolVersion: 99 }) },
+      source,
+    }));
+    await vi.waitFor(() => expect(source.postMessage).toHaveBeenCalledTimes(1));
+    const versionReply = source.postMessage.mock.calls[0][0] as IframeMessage;
+    expect(versionReply).toMatchObject({ type: 'register', replyTo: 'v99' });
+    expect(versionReply.data).toMatchObject({ accepted: false, reason: expect.stringContaining('Incompatible protocol version') });
+    expect((main as any).registeredIframe['newcomer']).toBeUndefined();
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'register', key: 'd1', sourceId: 'dup', origin: '*', path: ['dup'] },
+      source,
+    }));
+    await vi.waitFor(() => expect(source.postMessage).toHaveBeenCalledTimes(2));
+    expect(source.postMessage.mock.calls[1][0].data).toMatchObject({ accepted: false, reason: expect.stringContaining('already registered') });
+    expect(cwPost).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalled();
+
+    main.destroy();
+  });
+
+  it('子页面收到拒绝帧时 ready 应以 HandshakeError 拒绝', async () => {
+    const postSpy = vi.spyOn(window, 'postMessage').mockImplementation(() => { });
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'hs2', origin: '*' });
+    await vi.waitFor(() => expect(postSpy).toHaveBeenCalled());
+    const registerFrame = postSpy.mock.calls[0][0] as IframeMessage;
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: {
+        type: 'register', key: 'nack', replyTo: registerFrame.key, sourceId: 'main', targetId: 'hs2', path: ['main'],
+        data: child.enCodeMessage({ accepted: false, reason: 'Incompatible protocol version' }),
+      },
+    }));
+    const err = await child.ready.catch((e) => e);
+    expect(err).toBeInstanceOf(HandshakeError);
+    expect(err.reason).toBe('Incompatible protocol version');
+
+    child.destroy();
+  });
+
+  it('缺少或携带错误会话令牌的消息应被丢弃', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    linkIframe(main, 'peer');
+    vi.spyOn(console, 'warn').mockImplementation(() => { });
+    const cb = vi.fn();
+    main.on('*', cb);
+    await vi.waitFor(() => expect(cb).toHaveBeenCalledTimes(1)); // 主页面自身的注册应答
+
+    for (const token of [undefined, 'forged']) {
+      window.dispatchEvent(new MessageEvent('message', {
+        data: { type: 'message', key: `t-${token}`, sourceId: 'peer', targetId: 'main', path: ['peer'], token, data: main.enCodeMessage('x') },
+      }));
+    }
+    await new Promise((r) => setTimeout(r, 20));
+    expect(cb).toHaveBeenCalledTimes(1);
+
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 重新注册与重连', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('子页面未收到应答时应按指数退避重试注册', () => {
+    vi.useFakeTimers();
+    const postSpy = vi.spyOn(window, 'postMessage').mockImplementation(() => { });
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'retry', origin: '*', reconnect: { retryDelay: 100, maxRetryDelay: 300 } });
+    const registerCount = () => postSpy.mock.calls.filter(([m]) => (m as IframeMessage).type === 'register').length;
+
+    expect(registerCount()).toBe(1);
+    vi.advanceTimersByTime(100);
+    expect(registerCount()).toBe(2);
+    vi.advanceTimersByTime(199);
+    expect(registerCount()).toBe(2);
+    vi.advanceTimersByTime(1);
+    expect(registerCount()).toBe(3);
+    vi.advanceTimersByTime(300);
+    expect(registerCount()).toBe(4);
+
+    child.destroy();
+    vi.advanceTimersByTime(1000);
+    expect(registerCount()).toBe(4);
+  });
+
+  it('子页面握手完成前发送的消息应缓存，完成后再发出', async () => {
+    const postSpy = vi.spyOn(window, 'postMessage').mockImplementation(() => { });
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'early', origin: '*' });
+    child.send('main', 'hello', 1);
+    expect(postSpy.mock.calls.some(([m]) => (m as IframeMessage).event === 'hello')).toBe(false);
+
+    const registerFrame = postSpy.mock.calls[0][0] as IframeMessage;
+    window.dispatchEvent(new MessageEvent('message', {
+      data: {
+        type: 'register', key: 'ack', replyTo: registerFrame.key, sourceId: 'main', targetId: 'early', path: ['main'],
+        data: child.enCodeMessage({ accepted: true, version: 1, codec: 'base64-json', sessionToken: 'tk', capabilities: [] }),
+      },
+    }));
+    await child.ready;
+    await vi.waitFor(() => {
+      const sent = postSpy.mock.calls.map(([m]) => m as IframeMessage).find((m) => m.event === 'hello');
+      expect(sent).toMatchObject({ token: 'tk' });
+    });
+
+    child.destroy();
+  });
+
+  it('子页面断开后消息进入缓冲，同一窗口重新注册时替换绑定并补发', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    const cwPost = linkIframe(main, 'reload');
+    const cw = (main as any).registeredIframe['reload'].iframe.contentWindow;
+    vi.spyOn(console, 'warn').mockImplementation(() => { });
+    const disconnected = vi.fn();
+    const reconnected = vi.fn();
+    main.on('disconnected', disconnected);
+    main.on('reconnected', reconnected);
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'disconnect', key: 'bye', sourceId: 'reload', targetId: 'main', path: ['reload'], token: 'token-reload' },
+    }));
+    expect(disconnected).toHaveBeenCalledTimes(1);
+    expect(disconnected.mock.calls[0][0].data).toEqual({ id: 'reload', reason: 'unload' });
+
+    main.sendMessage({ targetId: 'reload', data: 'queued' });
+    expect(cwPost).not.toHaveBeenCalled();
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'register', key: 'again', sourceId: 'reload', origin: '*', path: ['reload'] },
+      source: cw,
+    }));
+    await vi.waitFor(() => expect(reconnected).toHaveBeenCalledTimes(1));
+    const newToken = (main as any).registeredIframe['reload'].sessionToken;
+    expect(newToken).not.toBe('token-reload');
+    const frames = cwPost.mock.calls.map(([m]) => m as IframeMessage);
+    expect(frames[0]).toMatchObject({ type: 'register', replyTo: 'again' });
+    expect(frames[1]).toMatchObject({ type: 'message', targetId: 'reload', token: newToken });
+    expect(frames[1].data).toBe('queued');
+
+    main.destroy();
+  });
+
+  it('注册后首个 load（子资源加载较慢）不视为重新加载，之后的 load 才断开', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => { });
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('slow');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'slow', origin: '*' });
+    await child.ready;
+    const iframe = document.querySelector('[data-mock-id="slow"]') as HTMLIFrameElement;
+    const disconnected = vi.fn();
+    const received: unknown[] = [];
+    main.on('disconnected', disconnected);
+    main.on('message', (m) => received.push(m.data));
+
+    // 图片、字体加载完成时已超过 1 秒
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 1100);
+    iframe.dispatchEvent(new Event('load'));
+    child.sendMessage({ targetId: 'main', data: 'still here' });
+    await vi.waitFor(() => expect(received).toEqual(['still here']));
+    expect(disconnected).not.toHaveBeenCalled();
+
+    iframe.dispatchEvent(new Event('load'));
+    expect(disconnected).toHaveBeenCalledTimes(1);
+    expect(disconnected.mock.calls[0][0].data).toEqual({ id: 'slow', reason: 'reload' });
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('没有绑定 iframe 的页面（如弹出窗口）只能由注册时的窗口重新注册', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    const register = (key: string, source: Window) => window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'register', key, sourceId: 'solo', origin: '*', path: ['solo'] },
+      source,
+    }));
+    const popup = fakeWindow();
+    const intruder = fakeWindow();
+    register('first', popup);
+    await vi.waitFor(() => expect(main.getPeer('solo')).toBeDefined());
+    const token = (main as any).registeredIframe.solo.sessionToken;
+
+    register('takeover', intruder);
+    await vi.waitFor(() => expect(intruder.postMessage).toHaveBeenCalledTimes(1));
+    expect(intruder.postMessage.mock.calls[0][0].data).toMatchObject({ accepted: false });
+    expect((main as any).registeredIframe.solo.sessionToken).toBe(token);
+    expect(main.getPeer('solo')!.window).toBe(popup);
+
+    // 同一窗口（刷新后）重新注册时照常替换
+    register('again', popup);
+    await vi.waitFor(() => expect((main as any).registeredIframe.solo.sessionToken).not.toBe(token));
+
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 心跳', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('收到 pong 后应更新 lastSeen 与往返时延', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', heartbeat: { interval: 100 } });
+    const cwPost = linkIframe(main, 'hb');
+
+    await vi.advanceTimersByTimeAsync(100);
+    const ping = cwPost.mock.calls[0][0] as IframeMessage;
+    expect(ping).toMatchObject({ type: 'ping', targetId: 'hb', token: 'token-hb' });
+
+    await vi.advanceTimersByTimeAsync(15);
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'pong', key: 'p1', replyTo: ping.key, sourceId: 'hb', targetId: 'main', path: ['hb'], token: 'token-hb', data: ping.data },
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(main.getPeerStatus('hb')).toEqual({ id: 'hb', connected: true, lastSeen: Date.now(), latency: 15, missedBeats: 0 });
+    main.destroy();
+  });
+
+  it('连续丢失心跳达到阈值应触发 peer:timeout 并标记断开', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', heartbeat: { interval: 100, maxMissed: 2 } });
+    const cwPost = linkIframe(main, 'frozen');
+    vi.spyOn(console, 'warn').mockImplementation(() => { });
+    const timeout = vi.fn();
+    const disconnected = vi.fn();
+    main.on('peer:timeout', timeout);
+    main.on('disconnected', disconnected);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(main.getPeerStatus('frozen')?.missedBeats).toBe(1);
+    expect(timeout).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(timeout).toHaveBeenCalledTimes(1);
+    expect(timeout.mock.calls[0][0].data).toMatchObject({ id: 'frozen', missedBeats: 2 });
+    expect(disconnected.mock.calls[0][0].data).toEqual({ id: 'frozen', reason: 'timeout' });
+    expect(main.getPeerStatus('frozen')?.connected).toBe(false);
+    // 子页面可能只是短暂卡顿，需通知其重新注册
+    const notice = cwPost.mock.calls.map(([m]) => m as IframeMessage).find((m) => m.type === 'disconnect');
+    expect(notice).toMatchObject({ targetId: 'frozen', token: 'token-frozen' });
+    expect((main as any).decodeData(notice)).toEqual({ reason: 'timeout' });
+
+    main.destroy();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('子页面收到心跳超时的断开通知后应立即重新注册', async () => {
+    const postSpy = vi.spyOn(window, 'postMessage').mockImplementation(() => { });
+    vi.spyOn(console, 'warn').mockImplementation(() => { });
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'thaw', origin: '*' });
+    const registerFrame = postSpy.mock.calls[0][0] as IframeMessage;
+    window.dispatchEvent(new MessageEvent('message', {
+      data: {
+        type: 'register', key: 'ack', replyTo: registerFrame.key, sourceId: 'main', targetId: 'thaw', path: ['main'],
+        data: child.enCodeMessage({ accepted: true, version: 1, codec: 'base64-json', sessionToken: 'tk', capabilities: [] }),
+      },
+    }));
+    await child.ready;
+    const disconnected = vi.fn();
+    child.on('disconnected', disconnected);
+    postSpy.mockClear();
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'disconnect', key: 'd1', sourceId: 'main', targetId: 'thaw', path: ['main'], token: 'tk', data: child.enCodeMessage({ reason: 'timeout' }) },
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(disconnected.mock.calls[0][0].data).toEqual({ id: 'main', reason: 'timeout' });
+    const register = postSpy.mock.calls.map(([m]) => m as IframeMessage).find((m) => m.type === 'register');
+    expect(register).toMatchObject({ sourceId: 'thaw', targetId: 'main' });
+
+    child.destroy();
+  });
+
+  it('子页面应自动回复 ping', async () => {
+    const postSpy = vi.spyOn(window, 'postMessage').mockImplementation(() => { });
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'echo', origin: '*' });
+    const registerFrame = postSpy.mock.calls[0][0] as IframeMessage;
+    window.dispatchEvent(new MessageEvent('message', {
+      data: {
+        type: 'register', key: 'ack', replyTo: registerFrame.key, sourceId: 'main', targetId: 'echo', path: ['main'],
+        data: child.enCodeMessage({ accepted: true, version: 1, codec: 'base64-json', sessionToken: 'tk', capabilities: [] }),
+      },
+    }));
+    await child.ready;
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'ping', key: 'ping1', sourceId: 'main', targetId: 'echo', path: ['main'], token: 'tk', data: child.enCodeMessage({ sentAt: 1 }) },
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+    const pong = postSpy.mock.calls.map(([m]) => m as IframeMessage).find((m) => m.type === 'pong');
+    expect(pong).toMatchObject({ replyTo: 'ping1', targetId: 'main', token: 'tk' });
+
+    child.destroy();
+  });
+});
+
+describe('IframeBridge - codec', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('消息应携带 codec id，接收方据此解码', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    const cwPost = linkIframe(main, 'rich');
+    const received = vi.fn();
+    main.on('rich', received);
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: {
+        type: 'message', key: 'x1', event: 'rich', sourceId: 'rich', targetId: 'main', path: ['rich'], token: 'token-rich',
+        codec: 'extended-json', data: extendedJsonCodec.encode({ at: new Date(5), tags: new Set(['a']) }),
+      },
+    }));
+    await vi.waitFor(() => expect(received).toHaveBeenCalled());
+    const { data } = received.mock.calls[0][0];
+    expect(data.at).toEqual(new Date(5));
+    expect(data.tags).toEqual(new Set(['a']));
+
+    main.sendMessage({ targetId: 'rich', data: { n: 1 } });
+    expect(cwPost.mock.calls[0][0]).toMatchObject({ codec: 'structured', data: { n: 1 } });
+
+    main.destroy();
+  });
+
+  it('codec 选项可指定内置 codec 或自定义 codec，未知 id 应抛错', () => {
+    const bridge = new IframeBridge({ type: 'main', origin: '*', codec: 'base64-json' });
+    const cwPost = linkIframe(bridge, 'legacy');
+    bridge.sendMessage({ targetId: 'legacy', data: 'hi' });
+    expect(cwPost.mock.calls[0][0]).toMatchObject({ codec: 'base64-json', data: bridge.enCodeMessage('hi') });
+    bridge.destroy();
+
+    const custom = new IframeBridge({ type: 'main', origin: '*', codec: { id: 'rev', encode: (d) => String(d).split('').reverse().join(''), decode: (d) => d } });
+    const customPost = linkIframe(custom, 'x');
+    custom.sendMessage({ targetId: 'x', data: 'abc' });
+    expect(customPost.mock.calls[0][0]).toMatchObject({ codec: 'rev', data: 'cba' });
+    custom.destroy();
+
+    expect(() => new IframeBridge({ type: 'main', codec: 'nope' })).toThrow('unknown codec');
+  });
+
+  it('主页面发往子页面的帧（含多播）使用与该子页面协商的 codec', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', codec: 'extended-json' });
+    const cwPost = emulateChildFrame('plain');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'plain', origin: '*', codec: 'json', ports: false });
+    const result = await child.ready;
+    expect(result.codec).toBe('json');
+    const received: unknown[] = [];
+    child.on('direct', (m) => received.push(m.data));
+    child.on('all', (m) => received.push(m.data));
+    main.handle('echo', (params) => params);
+    cwPost.mockClear();
+
+    main.send('plain', 'direct', { n: 1 });
+    main.broadcast({ n: 2 }, { event: 'all' });
+    await expect(child.request('main', 'echo', { n: 3 })).resolves.toEqual({ n: 3 });
+    await vi.waitFor(() => expect(received).toEqual([{ n: 1 }, { n: 2 }]));
+    const frames = cwPost.mock.calls.map(([m]) => m as IframeMessage).filter((m) => m.type !== 'ack');
+    expect(frames.map((m) => m.codec)).toEqual(['json', 'json', 'json']);
+
+    child.destroy();
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - transferable', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('transfer 列表应直接交给 postMessage，且 data 使用 structured 编码', () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', codec: 'base64-json' });
+    const cwPost = linkIframe(main, 'editor');
+    const buffer = new ArrayBuffer(8);
+
+    main.sendMessage({ targetId: 'editor', data: { buffer } }, { transfer: [buffer] });
+    const [frame, origin, transfer] = cwPost.mock.calls[0];
+    expect(frame).toMatchObject({ codec: 'structured', data: { buffer } });
+    expect(origin).toBe('*');
+    expect(transfer).toEqual([buffer]);
+
+    main.destroy();
+  });
+
+  it('主页面中继 iframe 之间的消息时应沿用 transfer 列表', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    linkIframe(main, 'src');
+    const dstPost = linkIframe(main, 'dst');
+    const buffer = new ArrayBuffer(4);
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: {
+        type: 'message', key: 'tr1', sourceId: 'src', targetId: 'dst', path: ['src'], token: 'token-src',
+        codec: 'structured', data: { buffer }, transfer: [buffer],
+      },
+    }));
+    await vi.waitFor(() => expect(dstPost).toHaveBeenCalled());
+    const [frame, , transfer] = dstPost.mock.calls[0];
+    expect(frame).toMatchObject({ key: 'tr1', token: 'token-dst' });
+    expect(transfer).toEqual([buffer]);
+
+    main.destroy();
+  });
+
+  it('子页面发送与 request 也支持 transfer', async () => {
+    const postSpy = vi.spyOn(window, 'postMessage').mockImplementation(() => { });
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'img', origin: '*' });
+    const registerFrame = postSpy.mock.calls[0][0] as IframeMessage;
+    window.dispatchEvent(new MessageEvent('message', {
+      data: {
+        type: 'register', key: 'ack', replyTo: registerFrame.key, sourceId: 'main', targetId: 'img', path: ['main'],
+        data: { accepted: true, version: 1, codec: 'structured', sessionToken: 'tk', capabilities: [] }, codec: 'structured',
+      },
+    }));
+    await child.ready;
+
+    const buffer = new ArrayBuffer(16);
+    const pending = child.request('main', 'upload', buffer, { transfer: [buffer], timeout: 0 });
+    const call = postSpy.mock.calls.find(([m]) => (m as IframeMessage).type === 'request')!;
+    expect(call[2]).toEqual([buffer]);
+    expect((call[0] as IframeMessage).data).toBe(buffer);
+
+    child.destroy();
+    await expect(pending).rejects.toThrow('destroyed');
+  });
+});
+
+describe('IframeBridge - 分片流', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  async function readAll(stream: ReadableStream<unknown>) {
+    const reader = stream.getReader();
+    const chunks: unknown[] = [];
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return chunks;
+      chunks.push(value);
+    }
+  }
+
+  async function connect(id: string, ports = true) {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame(id);
+    const child = new IframeBridge({ type: 'iframe', iframeId: id, origin: '*', ports });
+    await child.ready;
+    return { main, child };
+  }
+
+  it('大字符串应按 chunkSize 切分并在接收方按序重组，进度回调报告确认数', async () => {
+    const { main, child } = await connect('up1');
+    const incoming = new Promise<IncomingStream>((resolve) => main.on('upload', (m) => resolve(m.data as IncomingStream)));
+    const progress: number[] = [];
+
+    const text = 'abcdefghij'.repeat(10);
+    const out = child.sendStream('main', [text], {
+      event: 'upload', chunkSize: 16, meta: { name: 'a.txt' }, onProgress: (p) => progress.push(p.ackedChunks),
+    });
+    const received = await incoming;
+    expect(received).toMatchObject({ id: out.id, sourceId: 'up1', meta: { name: 'a.txt' } });
+    const chunks = await readAll(received.stream);
+    await out.done;
+
+    expect(chunks).toHaveLength(7);
+    expect(chunks.join('')).toBe(text);
+    expect(progress[progress.length - 1]).toBe(7);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('接收方不读取时发送方应在窗口用尽后暂停，读取后继续', async () => {
+    // 统计经 window.postMessage 发出的帧，不使用专用端口
+    const { main, child } = await connect('up2', false);
+    const incoming = new Promise<IncomingStream>((resolve) => main.on('stream', (m) => resolve(m.data as IncomingStream)));
+    const postSpy = window.postMessage as unknown as ReturnType<typeof vi.fn>;
+    const chunkFrames = () => postSpy.mock.calls.filter(([m]) => (m as IframeMessage).type === 'stream'
+      && ((m as IframeMessage).data as { op: string }).op === 'chunk').length;
+
+    const bytes = new Uint8Array(40).map((_, i) => i);
+    const out = child.sendStream('main', [bytes], { chunkSize: 1, window: 2 });
+    const received = await incoming;
+    await new Promise((r) => setTimeout(r, 50));
+    expect(chunkFrames()).toBeLessThan(40);
+
+    const chunks = (await readAll(received.stream)) as Uint8Array[];
+    await out.done;
+    expect(chunkFrames()).toBe(40);
+    expect(Array.from(chunks, (c) => c[0])).toEqual(Array.from(bytes));
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('接收方取消时发送方的 done 应以 StreamCancelledError 拒绝', async () => {
+    const { main, child } = await connect('up3');
+    main.on('stream', (m) => (m.data as IncomingStream).cancel('not needed'));
+
+    async function* endless() {
+      while (true) yield 'x';
+    }
+    const out = child.sendStream('main', endless(), { window: 1 });
+    const err = await out.done.catch((e) => e);
+    expect(err).toBeInstanceOf(StreamCancelledError);
+    expect(err.reason).toBe('not needed');
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('发送方取消或数据源出错时接收方读取应失败', async () => {
+    const { main, child } = await connect('up4');
+    const streams: IncomingStream[] = [];
+    main.on('stream', (m) => streams.push(m.data as IncomingStream));
+
+    async function* failing() {
+      yield 'a';
+      throw new Error('disk read failed');
+    }
+    const broken = child.sendStream('main', failing());
+    await expect(broken.done).rejects.toThrow('disk read failed');
+    await vi.waitFor(() => expect(streams).toHaveLength(1));
+    const readErr = await readAll(streams[0].stream).catch((e) => e);
+    expect(readErr).toBeInstanceOf(RemoteError);
+    expect(readErr.message).toBe('disk read failed');
+
+    const controller = new AbortController();
+    const stopped = child.sendStream('main', new ReadableStream({ pull: (c) => c.enqueue('y') }), { signal: controller.signal, window: 1 });
+    await vi.waitFor(() => expect(streams).toHaveLength(2));
+    controller.abort();
+    await expect(stopped.done).rejects.toBeInstanceOf(StreamCancelledError);
+    await expect(readAll(streams[1].stream)).rejects.toBeInstanceOf(StreamCancelledError);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('其他页面伪造同一 stream id 的控制帧应被忽略', async () => {
+    const { main, child } = await connect('up5');
+    emulateChildFrame('up6');
+    const other = new IframeBridge({ type: 'iframe', iframeId: 'up6', origin: '*' });
+    await other.ready;
+    const incoming = new Promise<IncomingStream>((resolve) => main.on('stream', (m) => resolve(m.data as IncomingStream)));
+
+    const out = child.sendStream('main', ['abcdef'], { chunkSize: 1, window: 1 });
+    const received = await incoming;
+    const forged = (other as any).createMessage({ targetId: 'main', data: { op: 'cancel', reason: 'forged' }, streamId: out.id }, 'stream');
+    (other as any).sendMessage(forged, 'stream');
+    await new Promise((r) => setTimeout(r, 20));
+
+    expect((await readAll(received.stream)).join('')).toBe('abcdef');
+    await out.done;
+
+    other.destroy();
+    child.destroy();
+    main.destroy();
+  });
+
+  it('对端断开或被移除时未结束的流应以 StreamCancelledError 结束', async () => {
+    const { main, child } = await connect('up7');
+    const incoming = new Promise<IncomingStream>((resolve) => child.on('stream', (m) => resolve(m.data as IncomingStream)));
+
+    async function* endless() {
+      while (true) yield 'x';
+    }
+    const out = main.sendStream('up7', endless(), { window: 1 });
+    const received = await incoming;
+    main.unregister('up7');
+
+    await expect(out.done).rejects.toBeInstanceOf(StreamCancelledError);
+    await expect(readAll(received.stream)).rejects.toBeInstanceOf(StreamCancelledError);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('目标不存在时 done 应立即以 TargetNotFoundError 拒绝', async () => {
+    const errors: Error[] = [];
+    const main = new IframeBridge({ type: 'main', origin: '*', onError: (error) => errors.push(error) });
+
+    const out = main.sendStream('nobody', ['abc']);
+    await expect(out.done).rejects.toBeInstanceOf(TargetNotFoundError);
+    expect(errors[0]).toMatchObject({ targetId: 'nobody' });
+
+    main.destroy();
+  });
+
+  it('超过 timeout 未收到确认时应取消流并通知接收方', async () => {
+    vi.useFakeTimers();
+    const main = new IframeBridge({ type: 'main', origin: '*', requestTimeout: 500 });
+    const cwPost = linkIframe(main, 'mute');
+
+    const out = main.sendStream('mute', ['abc'], { chunkSize: 1, window: 2 });
+    const settled = out.done.catch((e) => e);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(vi.getTimerCount()).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    const err = await settled;
+    expect(err).toBeInstanceOf(StreamCancelledError);
+    expect(err.reason).toBe('no ack from mute within 500ms');
+    const frames = cwPost.mock.calls.map(([m]) => (main as any).decodeData(m) as { op: string });
+    expect(frames.map((f) => f.op)).toEqual(['open', 'chunk', 'chunk', 'cancel']);
+
+    main.destroy();
+    vi.useRealTimers();
+  });
+});
+
+describe('IframeBridge - 来源校验', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('白名单支持通配、正则与函数条目', () => {
+    expect(matchOrigin('https://a.good.test', 'https://*.good.test')).toBe(true);
+    expect(matchOrigin('https://good.test.evil.test', 'https://*.good.test')).toBe(false);
+    expect(matchOrigin('https://evil.test/https://x.good.test', 'https://*.good.test')).toBe(false);
+    expect(matchOrigin('https://app2.test', /^https:\/\/app\d\.test$/)).toBe(true);
+    expect(matchOrigin('https://partner.test', (o) => o.endsWith('partner.test'))).toBe(true);
+    expect(matchOrigin('null', '*')).toBe(true);
+  });
+
+  it('注册白名单应校验 event.origin 而非帧内自填的 origin', async () => {
+    const violations: SecurityViolation[] = [];
+    const main = new IframeBridge({
+      type: 'main', origin: '*', originWhitelist: ['https://*.good.test'], onSecurityViolation: (v) => violations.push(v),
+    });
+    const iframe = makeIframe('spoof');
+    const cw = iframe.contentWindow as any;
+    cw.postMessage = vi.fn();
+
+    const register = (key: string, origin: string) => window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'register', key, sourceId: 'spoof', targetId: 'main', origin: 'https://a.good.test', path: ['spoof'] },
+      source: cw, origin,
+    }));
+    register('reg-evil', 'https://evil.test');
+    await vi.waitFor(() => expect(cw.postMessage).toHaveBeenCalledTimes(1));
+    expect(cw.postMessage.mock.calls[0][0].data).toMatchObject({ accepted: false });
+    expect((main as any).registeredIframe.spoof).toBeUndefined();
+    expect(violations[0]).toMatchObject({ reason: 'origin-not-allowed', origin: 'https://evil.test', dropped: true });
+
+    register('reg-good', 'https://a.good.test');
+    await vi.waitFor(() => expect((main as any).registeredIframe.spoof).toBeDefined());
+    expect((main as any).registeredIframe.spoof.origin).toBe('https://a.good.test');
+    // 应答只投递给校验过的来源
+    expect(cw.postMessage.mock.calls[1][1]).toBe('https://a.good.test');
+
+    main.destroy();
+  });
+
+  it('令牌正确但来自其他窗口或来源的帧：默认仅上报，严格模式下丢弃', async () => {
+    for (const strict of [false, true]) {
+      const violations: SecurityViolation[] = [];
+      const main = new IframeBridge({ type: 'main', origin: '*', strict, onSecurityViolation: (v) => violations.push(v) });
+      linkIframe(main, 'victim');
+      (main as any).registeredIframe.victim.origin = 'https://victim.test';
+      const attacker = makeIframe('attacker').contentWindow as Window;
+      const received: IframeMessage[] = [];
+      main.on('message', (m) => received.push(m));
+
+      const frame = (key: string) => ({
+        type: 'message', key, sourceId: 'victim', targetId: 'main', path: ['victim'], token: 'token-victim', codec: 'structured', data: key,
+      });
+      window.dispatchEvent(new MessageEvent('message', { data: frame('from-attacker'), source: attacker, origin: 'https://victim.test' }));
+      const victimWindow = (main as any).registeredIframe.victim.iframe.contentWindow;
+      window.dispatchEvent(new MessageEvent('message', { data: frame('wrong-origin'), source: victimWindow, origin: 'https://evil.test' }));
+      window.dispatchEvent(new MessageEvent('message', { data: frame('genuine'), source: victimWindow, origin: 'https://victim.test' }));
+      await vi.waitFor(() => expect(received.map((m) => m.data)).toContain('genuine'));
+
+      expect(violations.map((v) => v.reason)).toEqual(['source-mismatch', 'origin-mismatch']);
+      expect(violations.every((v) => v.dropped === strict && v.lastHop === 'victim')).toBe(true);
+      expect(received.map((m) => m.data)).toEqual(strict ? ['genuine'] : ['from-attacker', 'wrong-origin', 'genuine']);
+      main.destroy();
+    }
+  });
+
+  it('没有绑定 iframe 的页面按注册时的窗口校验来源', async () => {
+    const violations: SecurityViolation[] = [];
+    const main = new IframeBridge({ type: 'main', origin: '*', strict: true, onSecurityViolation: (v) => violations.push(v) });
+    const popup = fakeWindow();
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'register', key: 'reg', sourceId: 'popup', origin: '*', path: ['popup'] },
+      source: popup, origin: 'https://popup.test',
+    }));
+    await vi.waitFor(() => expect(main.getPeer('popup')).toBeDefined());
+    const token = (main as any).registeredIframe.popup.sessionToken;
+    const received: unknown[] = [];
+    main.on('message', (m) => received.push(m.data));
+
+    const frame = (key: string) => ({
+      type: 'message', key, sourceId: 'popup', targetId: 'main', path: ['popup'], token, codec: 'structured', data: key,
+    });
+    window.dispatchEvent(new MessageEvent('message', { data: frame('forged'), source: fakeWindow(), origin: 'https://popup.test' }));
+    window.dispatchEvent(new MessageEvent('message', { data: frame('genuine'), source: popup, origin: 'https://popup.test' }));
+    await vi.waitFor(() => expect(received).toEqual(['genuine']));
+    expect(violations.map((v) => v.reason)).toEqual(['source-mismatch']);
+
+    main.destroy();
+  });
+
+  it('严格模式下子页面只接受来自 window.parent 且带 origin 的帧', async () => {
+    const postSpy = vi.spyOn(window, 'postMessage').mockImplementation(() => { });
+    const violations: SecurityViolation[] = [];
+    const child = new IframeBridge({
+      type: 'iframe', iframeId: 'locked', origin: '*', strict: true, onSecurityViolation: (v) => violations.push(v),
+    });
+    const registerFrame = postSpy.mock.calls[0][0] as IframeMessage;
+    const ack = {
+      type: 'register', key: 'ack', replyTo: registerFrame.key, sourceId: 'main', targetId: 'locked', path: ['main'], codec: 'structured',
+      data: { accepted: true, version: 1, codec: 'structured', sessionToken: 'tk', capabilities: [] },
+    };
+    // 不带 event.origin 的应答无法校验
+    window.dispatchEvent(new MessageEvent('message', { data: ack, source: window }));
+    await new Promise((r) => setTimeout(r, 10));
+    expect(violations[0]).toMatchObject({ reason: 'unverifiable', dropped: true });
+
+    window.dispatchEvent(new MessageEvent('message', { data: ack, source: window, origin: window.location.origin }));
+    await child.ready;
+
+    const received: IframeMessage[] = [];
+    child.on('*', (m) => received.push(m));
+    const frame = (key: string) => ({
+      type: 'message', key, sourceId: 'main', targetId: 'locked', path: ['main'], token: 'tk', codec: 'structured', data: key,
+    });
+    const stranger = makeIframe('stranger').contentWindow as Window;
+    window.dispatchEvent(new MessageEvent('message', { data: frame('stranger'), source: stranger, origin: window.location.origin }));
+    window.dispatchEvent(new MessageEvent('message', { data: frame('parent'), source: window, origin: window.location.origin }));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0].data).toBe('parent');
+    expect(violations[1]).toMatchObject({ reason: 'source-mismatch', key: 'stranger' });
+
+    child.destroy();
+  });
+});
+
+describe('IframeBridge - 消息签名与加密', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('sign 模式下消息带 HMAC 签名，篡改后的帧被拒绝并上报', async () => {
+    const violations: SecurityViolation[] = [];
+    const main = new IframeBridge({ type: 'main', origin: '*', security: { mode: 'sign' }, onSecurityViolation: (v) => violations.push(v) });
+    emulateChildFrame('signer');
+    const portSpy = vi.spyOn(MessagePort.prototype, 'postMessage');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'signer', origin: '*', security: {} });
+    await child.ready;
+    const received: IframeMessage[] = [];
+    main.on('message', (m) => received.push(m));
+
+    child.sendMessage({ targetId: 'main', data: { amount: 10, at: new Date(0) } });
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0].data).toEqual({ amount: 10, at: new Date(0) });
+
+    const sealed = portSpy.mock.calls.map(([m]) => m as IframeMessage).find((m) => m.type === 'message')!;
+    expect(sealed.seal).toMatchObject({ alg: 'hmac-sha256', signer: 'signer', recipient: 'main' });
+
+    // 接收方会改写帧的 path，重放时还原为发送时的 path；子页面已改用专用端口，篡改的帧同样经端口送达
+    const port = (child as any).parentPort as MessagePort;
+    port.postMessage({ ...sealed, path: ['signer'], data: (sealed.data as string).replace('10', '99') });
+    port.postMessage({ ...sealed, path: ['signer'], timestamp: (sealed.timestamp as number) + 1 });
+    await vi.waitFor(() => expect(violations).toHaveLength(2));
+    expect(violations.every((v) => v.reason === 'invalid-signature' && v.sourceId === 'signer')).toBe(true);
+    expect(received).toHaveLength(1);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('主页面密钥对生成前到达的注册应等待密钥就绪后再应答', async () => {
+    // 推迟主页面的密钥生成，使子页面的注册先到达
+    const generateKey = crypto.subtle.generateKey.bind(crypto.subtle);
+    vi.spyOn(crypto.subtle, 'generateKey').mockImplementationOnce(((...args: Parameters<typeof generateKey>) =>
+      new Promise((resolve) => setTimeout(resolve, 50)).then(() => generateKey(...args))) as typeof generateKey);
+    const main = new IframeBridge({ type: 'main', origin: '*', security: {} });
+    emulateChildFrame('early');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'early', origin: '*', security: {} });
+
+    await child.ready;
+    const received: unknown[] = [];
+    main.on('note', (m) => received.push(m.data));
+    child.send('main', 'note', 'signed after all');
+    await vi.waitFor(() => expect(received).toEqual(['signed after all']));
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('encrypt 模式下 request / response 以密文传输', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', security: { mode: 'encrypt' } });
+    emulateChildFrame('vault');
+    const portSpy = vi.spyOn(MessagePort.prototype, 'postMessage');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'vault', origin: '*', security: { mode: 'encrypt' } });
+    await child.ready;
+
+    main.handle('secret', (params) => `${params}:s3cr3t`);
+    await expect(child.request('main', 'secret', 'pin-1234')).resolves.toBe('pin-1234:s3cr3t');
+
+    const frames = portSpy.mock.calls.map(([m]) => m as IframeMessage);
+    const request = frames.find((m) => m.type === 'request')!;
+    const response = frames.find((m) => m.type === 'response')!;
+    expect(request.seal).toMatchObject({ alg: 'aes-gcm', recipient: 'main' });
+    expect(JSON.stringify(request)).not.toContain('pin-1234');
+    expect(JSON.stringify(response)).not.toContain('s3cr3t');
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('经主页面中继的子页面消息端到端加密，接收方向主页面查询发送方公钥', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', security: { mode: 'encrypt' } });
+    emulateChildFrame('alice');
+    const portSpy = vi.spyOn(MessagePort.prototype, 'postMessage');
+    const alice = new IframeBridge({ type: 'iframe', iframeId: 'alice', origin: '*', security: { mode: 'encrypt' } });
+    const bob = new IframeBridge({ type: 'iframe', iframeId: 'bob', origin: '*', security: { mode: 'encrypt' } });
+    await Promise.all([alice.ready, bob.ready]);
+    const received: IframeMessage[] = [];
+    bob.on('note', (m) => received.push(m));
+
+    alice.send('bob', 'note', 'meet at noon');
+    await vi.waitFor(() => expect(received).toHaveLength(1), { timeout: 4000 });
+    expect(received[0]).toMatchObject({ sourceId: 'alice', data: 'meet at noon' });
+
+    // 主页面经专用端口转发给 bob 的帧
+    const relayed = portSpy.mock.calls.map(([m]) => m as IframeMessage).find((m) => m.event === 'note' && m.path?.includes('main'))!;
+    expect(relayed.seal).toMatchObject({ signer: 'alice', recipient: 'bob' });
+    expect(JSON.stringify(relayed)).not.toContain('noon');
+
+    alice.destroy();
+    bob.destroy();
+    main.destroy();
+  });
+
+  it('主页面的签名只对其展开的多播副本有效，不能冒充子页面发送单播', async () => {
+    const violations: SecurityViolation[] = [];
+    const main = new IframeBridge({ type: 'main', origin: '*', security: {} });
+    emulateChildFrame('carol');
+    const carol = new IframeBridge({ type: 'iframe', iframeId: 'carol', origin: '*', security: {} });
+    const dave = new IframeBridge({
+      type: 'iframe', iframeId: 'dave', origin: '*', security: {}, onSecurityViolation: (v) => violations.push(v),
+    });
+    await Promise.all([carol.ready, dave.ready]);
+    const received: IframeMessage[] = [];
+    dave.on('note', (m) => received.push(m));
+
+    carol.sendMessage({ targetId: '*', event: 'note', data: 'to everyone' });
+    await vi.waitFor(() => expect(received).toHaveLength(1), { timeout: 4000 });
+    expect(received[0]).toMatchObject({ sourceId: 'carol', data: 'to everyone' });
+
+    const forged = (main as any).createMessage({ targetId: 'dave', event: 'note', data: 'forged' });
+    await (main as any).postSealed({ ...forged, sourceId: 'carol' }, 'dave');
+    await vi.waitFor(() => expect(violations).toHaveLength(1));
+    expect(violations[0]).toMatchObject({ reason: 'invalid-signature', sourceId: 'carol', key: forged.key });
+    expect(received).toHaveLength(1);
+
+    carol.destroy();
+    dave.destroy();
+    main.destroy();
+  });
+
+  it('connectPeer 分配的直连端口上的消息同样签名，伪造的帧被拒绝', async () => {
+    const violations: SecurityViolation[] = [];
+    const main = new IframeBridge({ type: 'main', origin: '*', security: {} });
+    emulateChildFrame('erin');
+    const erin = new IframeBridge({ type: 'iframe', iframeId: 'erin', origin: '*', security: {} });
+    const frank = new IframeBridge({
+      type: 'iframe', iframeId: 'frank', origin: '*', security: {}, onSecurityViolation: (v) => violations.push(v),
+    });
+    await Promise.all([erin.ready, frank.ready]);
+    await erin.connectPeer('frank');
+    const received: unknown[] = [];
+    frank.on('note', (m) => received.push(m.data));
+    const portSpy = vi.spyOn(MessagePort.prototype, 'postMessage');
+
+    erin.send('frank', 'note', 'direct and signed');
+    await vi.waitFor(() => expect(received).toEqual(['direct and signed']), { timeout: 4000 });
+    const sealed = portSpy.mock.calls.map(([m]) => m as IframeMessage).find((m) => m.event === 'note')!;
+    expect(sealed.path).toEqual(['erin']);
+    expect(sealed.seal).toMatchObject({ alg: 'hmac-sha256', signer: 'erin', recipient: 'frank' });
+
+    const direct = (erin as any).directPorts.get('frank') as MessagePort;
+    direct.postMessage({ ...sealed, data: (sealed.data as string).replace('signed', 'forged') });
+    await vi.waitFor(() => expect(violations).toHaveLength(1));
+    expect(violations[0]).toMatchObject({ reason: 'invalid-signature', sourceId: 'erin' });
+    expect(received).toHaveLength(1);
+
+    erin.destroy();
+    frank.destroy();
+    main.destroy();
+  });
+
+  it('上级页面未开启 security 时子页面握手失败', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('lonely');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'lonely', origin: '*', security: {} });
+    await expect(child.ready).rejects.toBeInstanceOf(HandshakeError);
+
+    child.destroy();
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 去重与重放保护', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const frame = (key: string, extra: Partial<IframeMessage> = {}) => ({
+    type: 'message', key, sourceId: 'feed', targetId: 'main', path: ['feed'], token: 'token-feed',
+    codec: 'structured', data: key, timestamp: Date.now(), ...extra,
+  });
+  const dispatch = (data: unknown) => window.dispatchEvent(new MessageEvent('message', { data }));
+
+  it('同一 key 的消息只投递一次，并计入 duplicates', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    linkIframe(main, 'feed');
+    const received: IframeMessage[] = [];
+    main.on('message', (m) => received.push(m));
+
+    dispatch(frame('once'));
+    dispatch(frame('once'));
+    dispatch(frame('next'));
+    await vi.waitFor(() => expect(received.map((m) => m.data)).toEqual(['once', 'next']));
+    await new Promise((r) => setTimeout(r, 10));
+
+    expect(received).toHaveLength(2);
+    expect(main.getMetrics()).toMatchObject({ delivered: 2, duplicates: 1 });
+    main.destroy();
+  });
+
+  it('过期或时间戳超前的消息被丢弃，maxAge 与 clockSkew 可配置', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', replay: { maxAge: 1000, clockSkew: 100 } });
+    linkIframe(main, 'feed');
+    const received: IframeMessage[] = [];
+    main.on('message', (m) => received.push(m));
+
+    dispatch(frame('stale', { timestamp: Date.now() - 5000 }));
+    dispatch(frame('future', { timestamp: Date.now() + 5000 }));
+    dispatch(frame('fresh'));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    await new Promise((r) => setTimeout(r, 10));
+
+    expect(received[0].data).toBe('fresh');
+    expect(main.getMetrics()).toMatchObject({ delivered: 1, stale: 1, future: 1 });
+    main.destroy();
+  });
+
+  it('已见 key 记录有上限，超出后淘汰最早的记录', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', replay: { size: 2 } });
+    linkIframe(main, 'feed');
+    const received: unknown[] = [];
+    main.on('message', (m) => received.push(m.data));
+
+    for (const key of ['a', 'b', 'c', 'a', 'c']) {
+      dispatch(frame(key));
+      // eslint-disable-next-line no-await-in-loop
+      await new Promise((r) => setTimeout(r, 5));
+    }
+    await vi.waitFor(() => expect(received).toEqual(['a', 'b', 'c', 'a']));
+    expect(main.getMetrics().duplicates).toBe(1);
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 访问控制策略', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const frame = (sourceId: string, targetId: string, key: string, extra: Partial<IframeMessage> = {}) => ({
+    type: 'message', key, sourceId, targetId, path: [sourceId], token: `token-${sourceId}`,
+    codec: 'structured', data: key, timestamp: Date.now(), ...extra,
+  });
+  const dispatch = (data: unknown) => window.dispatchEvent(new MessageEvent('message', { data }));
+  const errorsOf = (post: ReturnType<typeof vi.fn>) => post.mock.calls.map(([m]) => m as IframeMessage).filter((m) => m.type === 'error');
+
+  it('插件之间不能互发消息，被拒绝的消息以 error 帧回给发送方', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', policy: { default: { targets: ['main'] } } });
+    const aPost = linkIframe(main, 'pluginA');
+    const bPost = linkIframe(main, 'pluginB');
+    const received: IframeMessage[] = [];
+    main.on('message', (m) => received.push(m));
+
+    dispatch(frame('pluginA', 'pluginB', 'sneaky'));
+    dispatch(frame('pluginA', 'main', 'hello'));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    expect(bPost).not.toHaveBeenCalled();
+    const [denied] = errorsOf(aPost);
+    expect(denied).toMatchObject({ sourceId: 'main', targetId: 'pluginA', replyTo: 'sneaky' });
+    expect(denied.data).toMatchObject({ code: 'forbidden', key: 'sneaky', targetId: 'pluginB' });
+    main.destroy();
+  });
+
+  it('子页面冒充其他页面的 sourceId 时拒绝', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', policy: { peers: { trusted: {} }, default: { targets: ['main'] } } });
+    const evilPost = linkIframe(main, 'evil');
+    const victimPost = linkIframe(main, 'victim');
+    linkIframe(main, 'trusted');
+
+    dispatch(frame('trusted', 'victim', 'forged', { path: ['evil'], token: 'token-evil' }));
+    await vi.waitFor(() => expect(errorsOf(evilPost)).toHaveLength(1));
+    expect(victimPost).not.toHaveBeenCalled();
+    main.destroy();
+  });
+
+  it('应答、心跳、流控制等其他帧在页面之间转发时同样受 targets 限制与冒充检查', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', policy: { peers: { trusted: {} }, default: { targets: ['main'] } } });
+    const aPost = linkIframe(main, 'pluginA');
+    const bPost = linkIframe(main, 'pluginB');
+    linkIframe(main, 'trusted');
+
+    const types = ['response', 'ping', 'pong', 'port', 'ack', 'error'] as const;
+    types.forEach((type) => dispatch(frame('pluginA', 'pluginB', `direct-${type}`, { type, replyTo: 'x' })));
+    dispatch(frame('pluginA', 'pluginB', 'chunk', { type: 'stream', streamId: 's1', data: { op: 'chunk', seq: 0 } }));
+    dispatch(frame('trusted', 'pluginB', 'spoofed-pong', { type: 'pong', path: ['pluginA'], token: 'token-pluginA' }));
+    await vi.waitFor(() => expect(errorsOf(aPost)).toHaveLength(types.length + 2));
+
+    expect(bPost).not.toHaveBeenCalled();
+    expect(errorsOf(aPost).map((m) => m.replyTo)).toEqual([...types.map((type) => `direct-${type}`), 'chunk', 'spoofed-pong']);
+    main.destroy();
+  });
+
+  it('多播时只投递给策略允许的目标', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', policy: { peers: { hub: { targets: ['main', 'sat*'] } } } });
+    linkIframe(main, 'hub');
+    const satPost = linkIframe(main, 'sat1');
+    const otherPost = linkIframe(main, 'other');
+
+    dispatch(frame('hub', '*', 'announce'));
+    await vi.waitFor(() => expect(satPost).toHaveBeenCalled());
+    expect(otherPost).not.toHaveBeenCalled();
+    main.destroy();
+  });
+
+  it('按 channel、大小与速率限制，并给出对应的错误码', async () => {
+    const main = new IframeBridge({
+      type: 'main', origin: '*',
+      policy: { default: { channels: ['chat:*'], maxSize: 16, rateLimit: { count: 2, interval: 60000 } } },
+    });
+    const post = linkIframe(main, 'talker');
+    const received: unknown[] = [];
+    main.on('chat:*', (m) => received.push(m.data));
+
+    dispatch(frame('talker', 'main', 'k1', { event: 'admin:reset' }));
+    dispatch(frame('talker', 'main', 'k2', { event: 'chat:say', data: 'x'.repeat(64) }));
+    dispatch(frame('talker', 'main', 'k3', { event: 'chat:say', data: 'hi' }));
+    dispatch(frame('talker', 'main', 'k4', { event: 'chat:say', data: 'again' }));
+    dispatch(frame('talker', 'main', 'k5', { event: 'chat:say', data: 'spam' }));
+    await vi.waitFor(() => expect(errorsOf(post)).toHaveLength(3));
+
+    expect(errorsOf(post).map((m) => (m.data as { code: string }).code)).toEqual(['forbidden', 'payload-too-large', 'rate-limited']);
+    expect(received).toEqual(['hi', 'again']);
+    main.destroy();
+  });
+
+  it('请求未被允许的方法时 request 立即以 PermissionDeniedError 拒绝', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', policy: { peers: { caller: { methods: ['safe.*'] } } } });
+    emulateChildFrame('caller');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'caller', origin: '*' });
+    await child.ready;
+    main.handle('safe.read', () => 'ok');
+    main.handle('danger.wipe', () => 'wiped');
+    const errors: IframeMessage[] = [];
+    child.on('error', (m) => errors.push(m));
+
+    await expect(child.request('main', 'safe.read')).resolves.toBe('ok');
+    const err = await child.request('main', 'danger.wipe').catch((e) => e);
+    expect(err).toBeInstanceOf(PermissionDeniedError);
+    expect(err.code).toBe('forbidden');
+    expect(errors).toHaveLength(1);
+
+    child.destroy();
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 限流与队列背压', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const frame = (key: string, extra: Partial<IframeMessage> = {}) => ({
+    type: 'message', key, sourceId: 'noisy', targetId: 'main', path: ['noisy'], token: 'token-noisy',
+    codec: 'structured', data: key, timestamp: Date.now(), ...extra,
+  });
+  const flood = (keys: string[]) => keys.forEach((key) => window.dispatchEvent(new MessageEvent('message', { data: frame(key) })));
+
+  it('超过速率的帧被丢弃，peer:throttled 事件合并上报', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', limits: { rate: { count: 3, interval: 60000 } } });
+    linkIframe(main, 'noisy');
+    const received: unknown[] = [];
+    const throttled: IframeMessage[] = [];
+    main.on('message', (m) => received.push(m.data));
+    main.on('peer:throttled', (m) => throttled.push(m));
+
+    flood(['1', '2', '3', '4', '5', '6']);
+    await vi.waitFor(() => expect(received).toEqual(['1', '2', '3']));
+    expect(throttled).toHaveLength(1);
+    expect(throttled[0].data).toEqual({ id: 'noisy', reason: 'rate-limited', dropped: 1 });
+    main.destroy();
+  });
+
+  it('超过 maxPayloadSize 的帧在解码前丢弃', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', limits: { maxPayloadSize: 32 } });
+    linkIframe(main, 'noisy');
+    const decode = vi.spyOn(main as any, 'decodeData');
+    const throttled: IframeMessage[] = [];
+    main.on('peer:throttled', (m) => throttled.push(m));
+
+    window.dispatchEvent(new MessageEvent('message', { data: frame('big', { codec: 'json', data: JSON.stringify('x'.repeat(100)) }) }));
+    await vi.waitFor(() => expect(throttled).toHaveLength(1));
+    expect(throttled[0].data).toMatchObject({ reason: 'payload-too-large' });
+    expect(decode).not.toHaveBeenCalled();
+    main.destroy();
+  });
+
+  it('队列溢出时按 overflow 策略丢弃或断开子页面', async () => {
+    const run = async (overflow: 'drop-oldest' | 'drop-newest' | 'disconnect') => {
+      const main = new IframeBridge({ type: 'main', origin: '*', limits: { maxQueueLength: 2, overflow } });
+      const cwPost = linkIframe(main, 'noisy');
+      const received: unknown[] = [];
+      const events: string[] = [];
+      main.on('message', (m) => received.push(m.data));
+      main.on('peer:*', (m) => events.push(m.event as string));
+      main.on('disconnected', (m) => events.push(m.event as string));
+
+      // 同步派发，处理队列前即已溢出
+      flood(['a', 'b', 'c', 'd']);
+      await new Promise((r) => setTimeout(r, 20));
+      const connected = (main as any).registeredIframe.noisy.connected;
+      // 断开时通知子页面重新注册
+      const notices = cwPost.mock.calls.map(([m]) => m as IframeMessage).filter((m) => m.type === 'disconnect')
+        .map((m) => (main as any).decodeData(m));
+      main.destroy();
+      return { received, events, connected, notices };
+    };
+
+    expect(await run('drop-newest')).toMatchObject({ received: ['a', 'b'], events: ['peer:throttled'], connected: true, notices: [] });
+    expect(await run('drop-oldest')).toMatchObject({ received: ['c', 'd'], events: ['peer:throttled'], connected: true, notices: [] });
+    expect(await run('disconnect')).toMatchObject({
+      received: [], events: ['peer:throttled', 'disconnected'], connected: false, notices: [{ reason: 'throttled' }],
+    });
+  });
+
+  it('流的分片被限流丢弃时两端的流都应以错误结束，而不是永远挂起', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', limits: { rate: { count: 5, interval: 1000 } } });
+    emulateChildFrame('uploader');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'uploader', origin: '*' });
+    await child.ready;
+    vi.spyOn(console, 'warn').mockImplementation(() => { });
+    const incoming = new Promise<IncomingStream>((resolve) => main.on('stream', (m) => resolve(m.data as IncomingStream)));
+
+    const out = child.sendStream('main', ['abcdefghij'], { chunkSize: 1 });
+    const err = await out.done.catch((e) => e);
+    expect(err).toBeInstanceOf(PermissionDeniedError);
+    expect(err.code).toBe('rate-limited');
+    const reader = (await incoming).stream.getReader();
+    const drain = async (): Promise<void> => {
+      if (!(await reader.read()).done) return drain();
+    };
+    await expect(drain()).rejects.toBeInstanceOf(PermissionDeniedError);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('排队上限按链路计算，一个子页面溢出不影响其他子页面', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', limits: { maxQueueLength: 2 } });
+    linkIframe(main, 'noisy');
+    linkIframe(main, 'quiet');
+    const received: unknown[] = [];
+    const throttled: unknown[] = [];
+    main.on('message', (m) => received.push(m.data));
+    main.on('peer:throttled', (m) => throttled.push((m.data as { id: string }).id));
+
+    const quiet = (key: string) => frame(key, { sourceId: 'quiet', path: ['quiet'], token: 'token-quiet' });
+    flood(['a', 'b', 'c']);
+    window.dispatchEvent(new MessageEvent('message', { data: quiet('q1') }));
+    window.dispatchEvent(new MessageEvent('message', { data: quiet('q2') }));
+    await new Promise((r) => setTimeout(r, 20));
+
+    expect(received).toEqual(['a', 'b', 'q1', 'q2']);
+    expect(throttled).toEqual(['noisy']);
+    main.destroy();
+  });
+
+  it('注册请求按实际发来的窗口计入限流，不按帧内声明的 sourceId', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', limits: { rate: { count: 1, interval: 60000 } } });
+    linkIframe(main, 'quiet');
+    const throttled: IframeMessage[] = [];
+    main.on('peer:throttled', (m) => throttled.push(m));
+
+    const stranger = makeIframe('stranger').contentWindow as Window;
+    const register = (key: string) => ({ type: 'register', key, sourceId: 'quiet', targetId: 'main', path: ['quiet'], codec: 'structured', data: {} });
+    ['r1', 'r2', 'r3'].forEach((key) => window.dispatchEvent(new MessageEvent('message', { data: register(key), source: stranger })));
+    await new Promise((r) => setTimeout(r, 20));
+
+    expect(throttled).toHaveLength(0);
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 可靠投递', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    sessionStorage.clear();
+  });
+
+  it('reliable 消息在接收方 ack 后 resolve', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('sure');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'sure', origin: '*' });
+    await child.ready;
+    const received: unknown[] = [];
+    main.on('order', (m) => received.push(m.data));
+
+    await expect(child.sendMessage({ targetId: 'main', event: 'order', data: 42 }, { reliable: true })).resolves.toBeUndefined();
+    expect(received).toEqual([42]);
+    await expect(child.sendMessage({ targetId: ['main', 'x'], data: 1 }, { reliable: true })).rejects.toMatchObject({ code: 'unsupported' });
+    const buffer = new ArrayBuffer(8);
+    await expect(child.sendMessage({ targetId: 'main', data: buffer }, { reliable: true, transfer: [buffer] })).rejects.toMatchObject({ code: 'unsupported' });
+    expect(buffer.byteLength).toBe(8);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('目标尚未注册时按退避重发，接收方只投递一次', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', delivery: { retryDelay: 10, maxRetryDelay: 20 } });
+    const delivered = main.sendMessage({ targetId: 'late', event: 'welcome', data: 'hi' }, { reliable: true });
+
+    await new Promise((r) => setTimeout(r, 50));
+    emulateChildFrame('late');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'late', origin: '*' });
+    const received: unknown[] = [];
+    child.on('welcome', (m) => received.push(m.data));
+
+    await delivered;
+    await new Promise((r) => setTimeout(r, 50));
+    expect(received).toEqual(['hi']);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('超过期限未确认时以 DeliveryError 拒绝并派发 delivery:failed', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', delivery: { retryDelay: 10 } });
+    const failed: IframeMessage[] = [];
+    main.on('delivery:failed', (m) => failed.push(m));
+
+    const err = await main.sendMessage({ targetId: 'ghost', data: 1 }, { reliable: true, deadline: 60 }).catch((e) => e);
+    expect(err).toBeInstanceOf(DeliveryError);
+    expect(err).toMatchObject({ code: 'timeout', targetId: 'ghost' });
+    expect(failed[0].data).toMatchObject({ id: 'ghost', code: 'timeout', key: err.key });
+    main.destroy();
+  });
+
+  it('persist 时未确认的消息写入 sessionStorage，页面重新加载后继续投递', async () => {
+    vi.spyOn(window, 'postMessage').mockImplementation(() => { });
+    const before = new IframeBridge({ type: 'iframe', iframeId: 'reloading', origin: '*', delivery: { persist: true } });
+    const pending = before.sendMessage({ targetId: 'main', event: 'draft', data: { text: 'unsaved', at: new Date(0) } }, { reliable: true });
+    before.destroy();
+    await expect(pending).rejects.toMatchObject({ code: 'destroyed' });
+    expect(sessionStorage.getItem('iframe-bridge:outbox:reloading')).toContain('unsaved');
+    vi.restoreAllMocks();
+
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('reloading');
+    const received: unknown[] = [];
+    main.on('draft', (m) => received.push(m.data));
+    const after = new IframeBridge({ type: 'iframe', iframeId: 'reloading', origin: '*', delivery: { persist: true } });
+
+    await vi.waitFor(() => expect(received).toEqual([{ text: 'unsaved', at: new Date(0) }]));
+    await vi.waitFor(() => expect(sessionStorage.getItem('iframe-bridge:outbox:reloading')).toBeNull());
+
+    after.destroy();
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 类型化契约与运行时校验', () => {
+  interface ChatSchema {
+    events: {
+      chat: { text: string; at: number };
+      typing: undefined;
+    };
+    methods: {
+      sum: { params: number[]; result: number };
+    };
+  }
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('声明 schema 后 send / on / request / handle 按契约检查类型', async () => {
+    const main = new IframeBridge<ChatSchema>({ type: 'main', origin: '*' });
+    emulateChildFrame('typed');
+    const child = new IframeBridge<ChatSchema>({ type: 'iframe', iframeId: 'typed', origin: '*' });
+    await child.ready;
+
+    const texts: string[] = [];
+    main.on('chat', (m) => texts.push(m.data.text.toUpperCase()));
+    main.handle('sum', (nums) => nums.reduce((a, b) => a + b, 0));
+    main.on('connected', () => { });
+
+    child.send('main', 'chat', { text: 'hi', at: 1 });
+    child.send('main', 'typing');
+    const total: number = await child.request('main', 'sum', [1, 2, 3]);
+    expect(total).toBe(6);
+    await vi.waitFor(() => expect(texts).toEqual(['HI']));
+
+    if (texts.length < 0) {
+      // 仅做编译期检查，不会执行
+      // @ts-expect-error 未声明的 event
+      child.send('main', 'chta', {});
+      // @ts-expect-error data 类型不符
+      child.send('main', 'chat', { text: 1, at: 1 });
+      // @ts-expect-error 缺少必填的 data
+      child.send('main', 'chat');
+      // @ts-expect-error 未声明的方法
+      void child.request('main', 'product', [1]);
+      // @ts-expect-error params 类型不符
+      void child.request('main', 'sum', 'nope');
+      // @ts-expect-error 返回值类型不符
+      main.handle('sum', () => 'six');
+    }
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('未声明 schema 时保持宽松类型', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    main.handle('anything', (params) => params);
+    main.on('whatever', (m) => m.data);
+    const pending = main.request<number>('ghost', 'anything', 1, { timeout: 1 });
+    await expect(pending).rejects.toBeInstanceOf(RequestTimeoutError);
+    main.destroy();
+  });
+
+  it('未通过 validators.events 校验的消息在到达监听器前丢弃', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+    // 符合 Standard Schema 的外部校验器，输出值替换原始数据
+    const trimmed = {
+      '~standard': {
+        version: 1 as const,
+        vendor: 'test',
+        validate: (value: unknown) => (typeof value === 'string'
+          ? { value: value.trim() }
+          : { issues: [{ message: 'expected string' }] }),
+      },
+    };
+    const main = new IframeBridge({
+      type: 'main',
+      origin: '*',
+      validators: { events: { chat: v.object({ text: v.string(), at: v.optional(v.number()) }), note: trimmed } },
+    });
+    emulateChildFrame('sloppy');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'sloppy', origin: '*' });
+    await child.ready;
+    const received: unknown[] = [];
+    main.on('chat', (m) => received.push(m.data));
+    main.on('note', (m) => received.push(m.data));
+
+    child.send('main', 'chat', { text: 1 });
+    child.send('main', 'chat', { text: 'ok' });
+    child.send('main', 'note', 42);
+    child.send('main', 'note', '  padded  ');
+
+    await vi.waitFor(() => expect(received).toEqual([{ text: 'ok' }, 'padded']));
+    expect(warn.mock.calls.some(([line]) => String(line).includes('text: expected string, received number'))).toBe(true);
+
+    warn.mockRestore();
+    child.destroy();
+    main.destroy();
+  });
+
+  it('request 的 params 与 result 分别在两端校验', async () => {
+    const main = new IframeBridge({
+      type: 'main',
+      origin: '*',
+      validators: { methods: { sum: { params: v.array(v.number()) } } },
+    });
+    emulateChildFrame('caller');
+    const child = new IframeBridge({
+      type: 'iframe',
+      iframeId: 'caller',
+      origin: '*',
+      validators: { methods: { sum: { result: (value) => typeof value === 'number' || 'result must be a number' } } },
+    });
+    await child.ready;
+    const handler = vi.fn((nums: number[]) => nums.reduce((a, b) => a + b, 0));
+    main.handle('sum', (params) => handler(params as number[]));
+
+    await expect(child.request('main', 'sum', [1, 2])).resolves.toBe(3);
+    const err = await child.request('main', 'sum', [1, 'x']).catch((e) => e);
+    expect(err).toBeInstanceOf(RemoteError);
+    expect(err.remoteName).toBe('ValidationError');
+    expect(err.message).toContain('1: expected number, received string');
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('响应结果未通过校验时以 ValidationError 拒绝', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('strictcaller');
+    const child = new IframeBridge({
+      type: 'iframe',
+      iframeId: 'strictcaller',
+      origin: '*',
+      validators: { methods: { label: { result: v.union(v.literal('one'), v.literal('two')) } } },
+    });
+    await child.ready;
+    main.handle('label', (params) => params);
+
+    await expect(child.request('main', 'label', 'two')).resolves.toBe('two');
+    const err = await child.request('main', 'label', 'six').catch((e) => e);
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err).toMatchObject({ target: 'label(result)', issues: ['no union member matched'] });
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('校验函数抛出的错误视为未通过', () => {
+    expect(runValidator(() => { throw new Error('boom'); }, 1)).toEqual({ ok: false, issues: ['boom'] });
+    expect(runValidator(v.object({ list: v.array(v.boolean()) }), { list: [true, 'no'] }))
+      .toEqual({ ok: false, issues: ['list.1: expected boolean, received string'] });
+  });
+});
+
+describe('IframeBridge - 共享状态', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('子页面在握手应答中拿到快照，并按 patch 跟随主页面的修改', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    const theme = main.createSharedState('theme', { mode: 'light', user: { name: 'ann', locale: 'en' } });
+    await theme.set((s) => ({ ...s, mode: 'dark' }));
+    expect(theme.version).toBe(2);
+
+    emulateChildFrame('mirror');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'mirror', origin: '*' });
+    const mirror = child.createSharedState('theme', { mode: 'light', user: { name: '', locale: '' } });
+    await mirror.ready;
+    expect(mirror.get()).toEqual({ mode: 'dark', user: { name: 'ann', locale: 'en' } });
+    expect(mirror.version).toBe(2);
+
+    const changes: StateChange[] = [];
+    mirror.subscribe((_value, change) => changes.push(change));
+    const before = mirror.get();
+    await theme.set((s) => ({ ...s, user: { ...s.user, locale: 'zh' } }));
+
+    await vi.waitFor(() => expect(mirror.version).toBe(3));
+    expect(mirror.get().user.locale).toBe('zh');
+    expect(changes).toEqual([{ version: 3, patch: [{ path: ['user', 'locale'], value: 'zh' }], sourceId: 'main' }]);
+    // 未修改的分支保持原引用
+    expect(mirror.get()).not.toBe(before);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('子页面的修改经主页面审批后应用，被拒绝时以 SharedStateError 拒绝', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    const prefs = main.createSharedState('prefs', { fontSize: 14 }, {
+      approve: ({ value, sourceId }) => value.fontSize <= 32 || `${sourceId} asked for a font that is too large`,
+    });
+    emulateChildFrame('editor');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'editor', origin: '*' });
+    await child.ready;
+    const local = child.createSharedState('prefs', { fontSize: 0 });
+    await local.ready;
+
+    const seen: unknown[] = [];
+    prefs.subscribe((value, change) => seen.push([value, change.sourceId]));
+    await local.set({ fontSize: 16 });
+    expect(local.get()).toEqual({ fontSize: 16 });
+    expect(prefs.get()).toEqual({ fontSize: 16 });
+    expect(seen).toEqual([[{ fontSize: 16 }, 'editor']]);
+
+    const err = await local.set({ fontSize: 99 }).catch((e) => e);
+    expect(err).toBeInstanceOf(SharedStateError);
+    expect(err).toMatchObject({ code: 'rejected', state: 'prefs', message: 'editor asked for a font that is too large' });
+    expect(local.get()).toEqual({ fontSize: 16 });
+
+    await expect(child.createSharedState('missing', 0).set(1)).rejects.toMatchObject({ code: 'unknown-state' });
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('审批期间版本发生变化视为冲突，函数形式的 set 基于最新状态重试', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    let approvals = 0;
+    let release!: () => void;
+    const gate = new Promise<void>((r) => { release = r; });
+    const counter = main.createSharedState('counter', { n: 0, log: [] as string[] }, {
+      approve: async () => {
+        approvals += 1;
+        await gate;
+        return true;
+      },
+    });
+    emulateChildFrame('racer');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'racer', origin: '*' });
+    const local = child.createSharedState('counter', { n: 0, log: [] as string[] });
+    await local.ready;
+
+    const pending = local.set((s) => ({ n: s.n + 1, log: [...s.log, 'child'] }));
+    await vi.waitFor(() => expect(approvals).toBe(1));
+    await counter.set((s) => ({ n: s.n + 10, log: [...s.log, 'main'] }));
+    release();
+    await pending;
+
+    expect(approvals).toBe(2);
+    expect(counter.get()).toEqual({ n: 11, log: ['main', 'child'] });
+    await vi.waitFor(() => expect(local.get()).toEqual({ n: 11, log: ['main', 'child'] }));
+    expect(local.version).toBe(counter.version);
+
+    await expect(local.set({ n: 0, log: [] })).resolves.toBeUndefined();
+    child.destroy();
+    main.destroy();
+  });
+
+  it('中间层 host 转发并应用主页面的状态更新，丢弃后代页面发来或路径不经由上级页面的 state 帧', async () => {
+    const postSpy = vi.spyOn(window, 'postMessage').mockImplementation(() => { });
+    const widget = new IframeBridge({ type: 'iframe', iframeId: 'widget', host: true, origin: '*' });
+    await vi.waitFor(() => expect(postSpy).toHaveBeenCalled());
+    const registerFrame = postSpy.mock.calls[0][0] as IframeMessage;
+    window.dispatchEvent(new MessageEvent('message', {
+      data: {
+        type: 'register', key: 'ack0', replyTo: registerFrame.key, sourceId: 'main', targetId: 'widget', path: ['main'],
+        data: widget.enCodeMessage({ accepted: true, version: 1, codec: 'structured', sessionToken: 'w-token', capabilities: [] }),
+      },
+    }));
+    await widget.ready;
+    const theme = widget.createSharedState('theme', 'light');
+
+    const cw = makeIframe('dash').contentWindow as any;
+    cw.postMessage = vi.fn();
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'register', key: 'reg1', sourceId: 'dash', targetId: 'main', origin: '*', path: ['dash'] },
+      source: cw,
+    }));
+    await vi.waitFor(() => expect((widget as any).registeredIframe.dash).toBeDefined());
+    const dashToken = (widget as any).registeredIframe.dash.sessionToken;
+
+    const state = (key: string, targetId: string, value: string, version: number, extra: Partial<IframeMessage> = {}) => ({
+      type: 'state', key, sourceId: 'main', targetId, path: ['main'], token: 'w-token', codec: 'structured',
+      data: { name: 'theme', version, value }, ...extra,
+    });
+    window.dispatchEvent(new MessageEvent('message', { data: state('down', 'dash', 'dark', 2) }));
+    window.dispatchEvent(new MessageEvent('message', { data: state('own', 'widget', 'dark', 2) }));
+    await vi.waitFor(() => expect(theme.get()).toBe('dark'));
+    await vi.waitFor(() => expect(cw.postMessage).toHaveBeenCalledWith(expect.objectContaining({ key: 'down' }), '*'));
+
+    postSpy.mockClear();
+    const fromDash = { path: ['dash'], token: dashToken };
+    window.dispatchEvent(new MessageEvent('message', { data: state('up1', 'widget', 'hacked', 3, fromDash), source: cw }));
+    window.dispatchEvent(new MessageEvent('message', { data: state('up2', 'main', 'hacked', 3, fromDash), source: cw }));
+    window.dispatchEvent(new MessageEvent('message', { data: state('forged', 'widget', 'forged', 3, { path: ['x'] }) }));
+    await new Promise((r) => setTimeout(r, 20));
+
+    expect(theme.get()).toBe('dark');
+    expect(postSpy).not.toHaveBeenCalled();
+    widget.destroy();
+  });
+
+  it('主页面不转发子页面发出的 state 帧', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    linkIframe(main, 'forger');
+    const victimPost = linkIframe(main, 'victim');
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: {
+        type: 'state', key: 'fake', sourceId: 'forger', targetId: 'victim', path: ['forger'], token: 'token-forger',
+        codec: 'structured', data: { name: 'theme', version: 99, value: 'hacked' },
+      },
+    }));
+    await new Promise((r) => setTimeout(r, 20));
+
+    expect(victimPost).not.toHaveBeenCalled();
+    main.destroy();
+  });
+
+  it('握手之后创建的状态向主页面同步，远端 patch 不能污染原型', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('latecomer');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'latecomer', origin: '*' });
+    await child.ready;
+    main.createSharedState('locale', 'fr');
+    const locale = child.createSharedState('locale', 'en');
+    await locale.ready;
+    expect(locale.get()).toBe('fr');
+
+    expect(diffState({ a: 1, b: [1] }, { b: [1, 2], c: 3 })).toEqual([
+      { path: ['a'], remove: true },
+      { path: ['b'], value: [1, 2] },
+      { path: ['c'], value: 3 },
+    ]);
+    expect(applyPatch({ a: 1 }, [{ path: ['a'], remove: true }])).toEqual({});
+    const raw = await child.request('main', '__iframe-bridge:proposeState', {
+      name: 'locale', base: 1, patch: [{ path: ['__proto__', 'polluted'], value: true }],
+    });
+    expect(raw).toMatchObject({ accepted: false, code: 'rejected' });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+
+    child.destroy();
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 远程对象代理', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  class Navigation {
+    public opened: string[] = [];
+
+    open(url: string, options: { replace?: boolean } = {}) {
+      this.opened.push(url);
+      return { url, replace: !!options.replace };
+    }
+
+    fail() {
+      throw new TypeError('navigation is locked');
+    }
+  }
+
+  it('像本地对象一样调用主页面公开的嵌套方法，错误跨页面带回', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    const navigation = new Navigation();
+    main.expose('host', { navigation, version: () => '1.0' });
+    emulateChildFrame('app');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'app', origin: '*' });
+    await child.ready;
+
+    const host = child.remote<{ navigation: Navigation; version: () => string }>('main', 'host');
+    await expect(host.navigation.open('/settings', { replace: true })).resolves.toEqual({ url: '/settings', replace: true });
+    await expect(host.version()).resolves.toBe('1.0');
+    expect(navigation.opened).toEqual(['/settings']);
+
+    const err = await host.navigation.fail().catch((e) => e);
+    expect(err).toBeInstanceOf(RemoteError);
+    expect(err).toMatchObject({ remoteName: 'TypeError', message: 'navigation is locked' });
+
+    const untyped = child.remote<Record<string, Record<string, () => unknown>>>('main', 'host');
+    await expect(untyped.navigation.constructor()).rejects.toThrow('Cannot access');
+    await expect(untyped.navigation.opened()).rejects.toThrow('"host.navigation.opened" is not a function');
+    await expect(child.remote<{ x: () => void }>('main', 'nothing').x()).rejects.toThrow('No object exposed as "nothing"');
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('回调参数以引用传递，返回的函数同样可远程调用，release 后失效', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    const listeners = new Set<(event: string) => Promise<unknown>>();
+    main.expose('events', {
+      subscribe(listener: (event: string) => Promise<unknown>) {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+          main.release(listener);
+        };
+      },
+    });
+    emulateChildFrame('subscriber');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'subscriber', origin: '*' });
+    await child.ready;
+
+    const received: string[] = [];
+    const events = child.remote<{ subscribe: (listener: (event: string) => string) => () => void }>('main', 'events');
+    const unsubscribe = await events.subscribe((event) => {
+      received.push(event);
+      return `ack:${event}`;
+    });
+    expect(listeners.size).toBe(1);
+    const [listener] = Array.from(listeners);
+    await expect(listener('route-changed')).resolves.toBe('ack:route-changed');
+    expect(received).toEqual(['route-changed']);
+
+    await unsubscribe();
+    expect(listeners.size).toBe(0);
+    await expect(listener('again')).rejects.toThrow('Remote function has been released');
+    expect(received).toEqual(['route-changed']);
+
+    child.destroy();
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 专用端口', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('握手后双方的消息经专用 MessagePort 传输，不再使用 window.postMessage', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    const cwPost = emulateChildFrame('porter');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'porter', origin: '*' });
+    await child.ready;
+    const postSpy = window.postMessage as unknown as ReturnType<typeof vi.fn>;
+    postSpy.mockClear();
+    cwPost.mockClear();
+
+    const up: unknown[] = [];
+    const down: unknown[] = [];
+    main.on('ping', (m) => up.push(m.data));
+    child.on('pong', (m) => down.push(m.data));
+    main.handle('echo', (params) => params);
+
+    // 主页面从端口收到子页面的第一帧后，发往子页面的帧也改走端口
+    child.send('main', 'ping', 1);
+    await vi.waitFor(() => expect(up).toEqual([1]));
+    main.send('porter', 'pong', 2);
+    await expect(child.request('main', 'echo', 'over-port')).resolves.toBe('over-port');
+    await vi.waitFor(() => expect(down).toEqual([2]));
+    expect(postSpy).not.toHaveBeenCalled();
+    expect(cwPost).not.toHaveBeenCalled();
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('ports: false 时退回 window 消息', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('legacy');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'legacy', origin: '*', ports: false });
+    await child.ready;
+    const postSpy = window.postMessage as unknown as ReturnType<typeof vi.fn>;
+    postSpy.mockClear();
+    const received: unknown[] = [];
+    main.on('ping', (m) => received.push(m.data));
+
+    child.send('main', 'ping', 'via-window');
+    await vi.waitFor(() => expect(received).toEqual(['via-window']));
+    expect(postSpy.mock.calls.some(([m]) => (m as IframeMessage).event === 'ping')).toBe(true);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('已建立端口的子页面经 window 发来的帧被丢弃', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('sealed');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'sealed', origin: '*' });
+    await child.ready;
+    const portSpy = vi.spyOn(MessagePort.prototype, 'postMessage');
+    const received: unknown[] = [];
+    main.on('ping', (m) => received.push(m.data));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    child.send('main', 'ping', 'genuine');
+    await vi.waitFor(() => expect(received).toEqual(['genuine']));
+    const frame = portSpy.mock.calls.map(([m]) => m as IframeMessage).find((m) => m.event === 'ping')!;
+    const iframe = document.querySelector('[data-mock-id="sealed"]') as HTMLIFrameElement;
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { ...frame, id: 'forged', data: 'forged' }, source: iframe.contentWindow, origin: window.location.origin,
+    }));
+    await new Promise((r) => setTimeout(r, 20));
+    expect(received).toEqual(['genuine']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('page uses a dedicated port'), expect.objectContaining({ peerId: 'sealed' }));
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('connectPeer 由上级页面分配直连端口，此后子页面之间的消息不经上级页面转发', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('alice');
+    const alice = new IframeBridge({ type: 'iframe', iframeId: 'alice', origin: '*' });
+    const bob = new IframeBridge({ type: 'iframe', iframeId: 'bob', origin: '*' });
+    await Promise.all([alice.ready, bob.ready]);
+    bob.handle('greet', (name) => `hi ${name}`);
+
+    await alice.connectPeer('bob');
+    const received: unknown[] = [];
+    bob.on('note', (m) => received.push(m.data));
+
+    main.destroy();
+    alice.send('bob', 'note', 'direct');
+    await vi.waitFor(() => expect(received).toEqual(['direct']));
+    await expect(alice.request('bob', 'greet', 'alice')).resolves.toBe('hi alice');
+
+    alice.destroy();
+    bob.destroy();
+  });
+
+  it('主页面不能调用 connectPeer，对端未启用端口时分配失败', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    await expect(main.connectPeer('anyone')).rejects.toThrow('The main page cannot open direct ports');
+    emulateChildFrame('modern');
+    const modern = new IframeBridge({ type: 'iframe', iframeId: 'modern', origin: '*' });
+    const legacy = new IframeBridge({ type: 'iframe', iframeId: 'legacy', origin: '*', ports: false });
+    await Promise.all([modern.ready, legacy.ready]);
+
+    await expect(modern.connectPeer('legacy')).rejects.toThrow('Cannot open a direct port between modern and legacy');
+
+    modern.destroy();
+    legacy.destroy();
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 日志与错误上报', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  function collect() {
+    const records: LogRecord[] = [];
+    const push = (_message: string, record: LogRecord) => records.push(record);
+    const logger: Logger = { debug: push, info: push, warn: push, error: push };
+    return { logger, records };
+  }
+
+  it('默认不输出调试信息，收发消息不写入 console', async () => {
+    const spies = (['log', 'debug', 'info'] as const).map((level) => vi.spyOn(console, level).mockImplementation(() => {}));
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('quiet');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'quiet', origin: '*' });
+    await child.ready;
+    const received: unknown[] = [];
+    main.on('secret', (m) => received.push(m.data));
+
+    child.send('main', 'secret', { card: '4111-1111' });
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    spies.forEach((spy) => expect(spy).not.toHaveBeenCalled());
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('debug 开启的命名空间输出结构化的收发记录，logLevel 过滤其余记录', async () => {
+    const { logger, records } = collect();
+    const main = new IframeBridge({ type: 'main', origin: '*', logger, logLevel: 'silent', debug: 'transport,request' });
+    emulateChildFrame('traced');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'traced', origin: '*', logger, logLevel: 'silent' });
+    await child.ready;
+    main.handle('double', (n) => (n as number) * 2);
+    const received: unknown[] = [];
+    child.on('note', (m) => received.push(m.data));
+
+    main.send('traced', 'note', 'x'.repeat(64));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    await expect(child.request('main', 'double', 21)).resolves.toBe(42);
+    main.send('ghost', 'note', 'lost');
+
+    expect(records.every((r) => r.bridgeId === 'main' && r.level === 'debug')).toBe(true);
+    const sent = records.find((r) => r.direction === 'out' && r.type === 'message');
+    expect(sent).toMatchObject({ namespace: 'transport', peerId: 'traced', key: expect.any(String) });
+    expect(sent!.size).toBeGreaterThanOrEqual(64);
+    const inbound = records.find((r) => r.direction === 'in' && r.type === 'request');
+    expect(inbound).toMatchObject({ peerId: 'traced', latency: expect.any(Number) });
+    // 请求方未开启 debug，不产生 request 记录
+    expect(records.some((r) => r.namespace === 'request')).toBe(false);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('onError 收到带类型的错误：目标不存在、解码失败、重复注册、来源被拒', async () => {
+    const errors: Error[] = [];
+    const { logger, records } = collect();
+    const main = new IframeBridge({
+      type: 'main', origin: '*', originWhitelist: ['https://*.good.test'], logger, onError: (error) => errors.push(error),
+    });
+    linkIframe(main, 'known');
+
+    main.send('ghost', 'ping', 1);
+    expect(errors[0]).toBeInstanceOf(TargetNotFoundError);
+    expect(errors[0]).toMatchObject({ targetId: 'ghost' });
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'message', key: 'bad-codec', sourceId: 'known', targetId: 'main', path: ['known'], token: 'token-known', codec: 'nope', data: 'x' },
+    }));
+    await vi.waitFor(() => expect(errors[1]).toBeInstanceOf(DecodeError));
+    expect(errors[1]).toMatchObject({ codec: 'nope', key: 'bad-codec' });
+
+    const source = makeIframe('intruder').contentWindow as any;
+    source.postMessage = vi.fn();
+    const register = (key: string, sourceId: string, origin: string) => window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'register', key, sourceId, origin, path: [sourceId] }, source, origin,
+    }));
+    register('dup', 'known', 'https://a.good.test');
+    await vi.waitFor(() => expect(errors[2]).toBeInstanceOf(DuplicateRegistrationError));
+    register('evil', 'intruder', 'https://evil.test');
+    await vi.waitFor(() => expect(errors[3]).toBeInstanceOf(OriginRejectedError));
+    expect(errors[3]).toMatchObject({ origin: 'https://evil.test', sourceId: 'intruder' });
+
+    const reported = records.filter((r) => r.error);
+    expect(reported.map((r) => r.error)).toEqual(errors);
+    expect(reported[0]).toMatchObject({ level: 'error', namespace: 'route', key: expect.any(String) });
+
+    main.destroy();
+  });
+
+  it('监听器抛出的错误交给 onError，onError 自身抛错不影响其他监听器', async () => {
+    const { logger, records } = collect();
+    const main = new IframeBridge({
+      type: 'main', origin: '*', logger, onError: () => { throw new Error('telemetry down'); },
+    });
+    emulateChildFrame('noisy');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'noisy', origin: '*' });
+    await child.ready;
+    const received: unknown[] = [];
+    main.on('tick', () => { throw new Error('boom'); });
+    main.on('tick', (m) => received.push(m.data));
+
+    child.send('main', 'tick', 1);
+    await vi.waitFor(() => expect(received).toEqual([1]));
+    expect(records.map((r) => r.message)).toEqual(['Listener for "tick" threw: boom', 'onError handler threw']);
+
+    child.destroy();
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 流量记录与回放', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('inspector 选项从握手开始记录收发与转发的帧及解码后的 data', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', inspector: true });
+    emulateChildFrame('alice');
+    const alice = new IframeBridge({ type: 'iframe', iframeId: 'alice', origin: '*' });
+    const bob = new IframeBridge({ type: 'iframe', iframeId: 'bob', origin: '*' });
+    await Promise.all([alice.ready, bob.ready]);
+    const received: unknown[] = [];
+    bob.on('note', (m) => received.push(m.data));
+    main.on('hello', () => {});
+
+    alice.send('main', 'hello', { at: new Date(0) });
+    alice.send('bob', 'note', 'hi bob');
+    await vi.waitFor(() => expect(received).toEqual(['hi bob']));
+
+    const entries = main.inspect().entries();
+    expect(entries.find((e) => e.type === 'register' && e.direction === 'in')).toMatchObject({ sourceId: 'alice', transport: 'window' });
+    expect(entries.find((e) => e.type === 'register' && e.direction === 'out')).toMatchObject({ targetId: 'alice' });
+    const hello = entries.find((e) => e.event === 'hello')!;
+    expect(hello).toMatchObject({ direction: 'in', transport: 'port', sourceId: 'alice', data: { at: new Date(0) } });
+    expect(hello.latency).toBeGreaterThanOrEqual(0);
+    expect(entries.find((e) => e.event === 'note' && e.direction === 'relay')).toMatchObject({ sourceId: 'alice', targetId: 'bob', data: 'hi bob' });
+    expect(entries.map((e) => e.seq)).toEqual([...entries.map((e) => e.seq)].sort((a, b) => a - b));
+
+    alice.destroy();
+    bob.destroy();
+    main.destroy();
+  });
+
+  it('环形缓冲只保留最近 size 帧，payloads: false 时不记录 data', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('chatty');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'chatty', origin: '*' });
+    await child.ready;
+    const inspector = main.inspect({ size: 3, payloads: false });
+    expect(main.inspect({ size: 100 })).toBe(inspector);
+    const live: TrafficEntry[] = [];
+    inspector.subscribe((entry) => live.push(entry));
+    let count = 0;
+    main.on('tick', () => { count += 1; });
+
+    for (let i = 0; i < 5; i += 1) child.send('main', 'tick', i);
+    await vi.waitFor(() => expect(count).toBe(5));
+    expect(live.filter((e) => e.event === 'tick')).toHaveLength(5);
+    expect(inspector.entries().map((e) => e.seq)).toEqual(live.slice(-3).map((e) => e.seq));
+    expect(inspector.entries().every((e) => !('data' in e) && e.size > 0)).toBe(true);
+
+    inspector.clear();
+    expect(inspector.entries()).toEqual([]);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('导出的录制可回放到新的实例，复现监听器与请求处理', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', inspector: true });
+    emulateChildFrame('reporter');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'reporter', origin: '*' });
+    await child.ready;
+    main.handle('save', (doc) => doc);
+    main.on('change', () => {});
+    child.send('main', 'change', { id: 1, tags: new Set(['a']) });
+    await child.request('main', 'save', { id: 1 });
+    const json = main.inspect().export();
+    child.destroy();
+    main.destroy();
+
+    const fresh = new IframeBridge({ type: 'main', origin: '*' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const changes: IframeMessage[] = [];
+    const saved: unknown[] = [];
+    fresh.on('change', (m) => changes.push(m));
+    fresh.handle('save', (doc) => { saved.push(doc); return doc; });
+
+    await expect(fresh.replay(json)).resolves.toBe(2);
+    await vi.waitFor(() => expect(saved).toEqual([{ id: 1 }]));
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ sourceId: 'reporter', data: { id: 1, tags: new Set(['a']) } });
+    await expect(fresh.replay(json, { types: ['request'] })).resolves.toBe(1);
+    expect(() => parseRecording('{}')).toThrow('Invalid traffic recording');
+
+    fresh.destroy();
+  });
+
+  it('mount 挂载的面板列出已注册页面与实时流量，卸载后移除', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    const inspector = main.inspect();
+    const unmount = inspector.mount();
+    emulateChildFrame('viewer');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'viewer', origin: '*' });
+    await child.ready;
+    child.send('main', '<b>ping</b>', 1);
+
+    const panel = document.querySelector('[data-iframe-bridge-inspector="main"]') as HTMLElement;
+    await vi.waitFor(() => expect(panel.querySelector('ol')!.textContent).toContain('<b>ping</b>'));
+    expect(panel.querySelector('b')).toBeNull();
+    expect(panel.querySelector('ul')!.textContent).toContain('viewer connected');
+
+    unmount();
+    expect(document.querySelector('[data-iframe-bridge-inspector]')).toBeNull();
+
+    child.destroy();
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 中间件', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  it('outbound 在编码前按注册顺序改写消息，异步钩子不打乱发送顺序，inbound 在派发前看到解码后的 data', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('tracer');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'tracer', origin: '*', codec: 'base64-json' });
+    await child.ready;
+    const calls: string[] = [];
+    const contexts: MiddlewareContext[] = [];
+    child.use({
+      name: 'slow-first',
+      outbound: async (m) => {
+        calls.push(`a:${m.data}`);
+        if (m.data === 1) await delay(30);
+      },
+    });
+    const removeTrace = child.use({
+      outbound: (m, ctx) => {
+        contexts.push(ctx);
+        calls.push(`b:${m.data}`);
+        return { ...m, data: { value: m.data, traceId: `t-${m.data}` } };
+      },
+    });
+    const seen: unknown[] = [];
+    main.use({
+      inbound: (m) => {
+        seen.push(m.data);
+        return { ...m, data: { ...(m.data as object), checked: true } };
+      },
+    });
+    const received: unknown[] = [];
+    main.on('tick', (m) => received.push(m.data));
+
+    child.send('main', 'tick', 1);
+    child.send('main', 'tick', 2);
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect(received).toEqual([{ value: 1, traceId: 't-1', checked: true }, { value: 2, traceId: 't-2', checked: true }]);
+    expect(seen).toEqual([{ value: 1, traceId: 't-1' }, { value: 2, traceId: 't-2' }]);
+    expect(calls).toEqual(['a:1', 'b:1', 'a:2', 'b:2']);
+    expect(contexts[0]).toEqual({ direction: 'outbound', bridgeId: 'tracer' });
+
+    removeTrace();
+    child.send('main', 'tick', 3);
+    await vi.waitFor(() => expect(received).toHaveLength(3));
+    expect(seen[2]).toBe(3);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('返回 false 丢弃消息，抛错时出站请求以该错误拒绝，入站请求以错误响应回复并交给 onError', async () => {
+    const errors: Error[] = [];
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const main = new IframeBridge({ type: 'main', origin: '*', onError: (e) => errors.push(e) });
+    emulateChildFrame('guarded');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'guarded', origin: '*' });
+    await child.ready;
+    main.handle('admin', () => 'secret');
+    main.handle('public', () => 'hello');
+    const received: unknown[] = [];
+    main.on('note', (m) => received.push(m.data));
+
+    child.use({
+      outbound: (m) => {
+        if (m.event === 'draft') return false;
+        if (m.method === 'forbidden') throw new Error('blocked locally');
+        return undefined;
+      },
+    });
+    main.use({
+      inbound: (m) => {
+        if (m.method === 'admin') throw new Error('missing auth token');
+        if (m.event === 'note' && m.data === 'spam') return false;
+        return undefined;
+      },
+    });
+
+    child.send('main', 'draft', 'never sent');
+    child.send('main', 'note', 'spam');
+    child.send('main', 'note', 'ham');
+    await expect(child.request('main', 'forbidden')).rejects.toThrow('blocked locally');
+    await expect(child.sendMessage({ targetId: 'main', method: 'forbidden' }, 'request')).rejects.toThrow('blocked locally');
+    const err = await child.request('main', 'admin').catch((e) => e);
+    expect(err).toBeInstanceOf(RemoteError);
+    expect(err.message).toBe('missing auth token');
+    await expect(child.request('main', 'public')).resolves.toBe('hello');
+    expect(received).toEqual(['ham']);
+    expect(errors.map((e) => e.message)).toEqual(['missing auth token']);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('relay 在转发前执行，可丢弃或拒绝经由本页面的消息', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('alice');
+    const alice = new IframeBridge({ type: 'iframe', iframeId: 'alice', origin: '*' });
+    const bob = new IframeBridge({ type: 'iframe', iframeId: 'bob', origin: '*' });
+    await Promise.all([alice.ready, bob.ready]);
+    const relayed: string[] = [];
+    main.use({
+      relay: (m, ctx) => {
+        expect(ctx.direction).toBe('relay');
+        relayed.push(`${m.sourceId}>${m.targetId}:${m.event || m.method || m.type}`);
+        if (m.event === 'blocked') return false;
+        if (m.method === 'wire') throw new Error('wire transfers disabled');
+        return undefined;
+      },
+    });
+    bob.handle('wire', () => 'sent');
+    const received: unknown[] = [];
+    bob.on('chat', (m) => received.push(m.data));
+    bob.on('blocked', (m) => received.push(m.data));
+
+    alice.send('bob', 'blocked', 'nope');
+    alice.send('bob', 'chat', 'hi');
+    await vi.waitFor(() => expect(received).toEqual(['hi']));
+    await expect(alice.request('bob', 'wire')).rejects.toThrow('wire transfers disabled');
+    expect(relayed).toEqual(['alice>bob:blocked', 'alice>bob:chat', 'alice>bob:wire']);
+
+    alice.destroy();
+    bob.destroy();
+    main.destroy();
+  });
+
+  it('流的控制帧不经过中间件，丢弃一切消息的中间件不会让流停住', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('streamer');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'streamer', origin: '*' });
+    await child.ready;
+    const dropAll = { outbound: () => false as const, inbound: () => false as const, relay: () => false as const };
+    child.use(dropAll);
+    main.use(dropAll);
+    const incoming = new Promise<IncomingStream>((resolve) => main.on('stream', (m) => resolve(m.data as IncomingStream)));
+
+    const out = child.sendStream('main', ['abcdef'], { chunkSize: 2, window: 1 });
+    const reader = (await incoming).stream.getReader();
+    const chunks: unknown[] = [];
+    for (let r = await reader.read(); !r.done; r = await reader.read()) chunks.push(r.value);
+    await out.done;
+    expect(chunks).toEqual(['ab', 'cd', 'ef']);
+
+    child.destroy();
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 页面注册表', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('getPeers / getPeer 返回注册信息与 metadata，子页面可经由上级页面查询注册表', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    const added: unknown[] = [];
+    main.on('peer:added', (m) => added.push(m.data));
+    emulateChildFrame('editor');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'editor', origin: '*', groups: ['tools'], metadata: { title: '编辑器', version: 2 } });
+    await child.ready;
+    linkIframe(main, 'viewer');
+
+    const peer = main.getPeer('editor')!;
+    expect(peer).toMatchObject({ id: 'editor', origin: '*', connected: true, groups: ['tools'], metadata: { title: '编辑器', version: 2 } });
+    expect(peer.iframe).toBe(document.querySelector('[data-mock-id="editor"]'));
+    expect(peer.registeredAt).toBeGreaterThan(0);
+    expect(main.getPeer('main')).toBeUndefined();
+    expect(main.getPeers().map((p) => p.id)).toEqual(['editor', 'viewer']);
+    expect(added).toHaveLength(1);
+    expect(added[0]).toMatchObject({ id: 'editor', metadata: { title: '编辑器', version: 2 } });
+
+    const peers = await child.queryPeers();
+    expect(peers.map((p) => p.id)).toEqual(['editor', 'viewer']);
+    expect(peers[0]).toMatchObject({ iframe: null, metadata: { title: '编辑器', version: 2 } });
+    await expect(main.queryPeers()).resolves.toHaveLength(2);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('有访问控制策略时，子页面查询到的注册表只包含自身与允许其发消息的页面', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*', policy: { peers: { plugin: { targets: ['main', 'host*'] } } } });
+    emulateChildFrame('plugin');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'plugin', origin: '*' });
+    await child.ready;
+    linkIframe(main, 'hostTools');
+    linkIframe(main, 'wallet');
+
+    expect(main.getPeers().map((p) => p.id)).toEqual(['plugin', 'hostTools', 'wallet']);
+    const peers = await child.queryPeers();
+    expect(peers.map((p) => p.id)).toEqual(['plugin', 'hostTools']);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('unregister 移除页面并通知子页面，子页面的会话随之失效', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('leaving');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'leaving', origin: '*' });
+    await child.ready;
+    const removed: unknown[] = [];
+    const childEvents: unknown[] = [];
+    main.on('peer:removed', (m) => removed.push(m.data));
+    child.on('disconnected', (m) => childEvents.push(m.data));
+
+    expect(main.unregister('leaving')).toBe(true);
+    expect(main.unregister('leaving')).toBe(false);
+    expect(main.getPeer('leaving')).toBeUndefined();
+    expect(removed).toHaveLength(1);
+    expect(removed[0]).toMatchObject({ id: 'leaving', reason: 'unregistered' });
+    await vi.waitFor(() => expect(childEvents).toEqual([{ id: 'main', reason: 'unregistered' }]));
+
+    // 会话已失效，子页面的消息不再发出
+    const received = vi.fn();
+    main.on('late', received);
+    child.send('main', 'late', 1);
+    await new Promise((r) => setTimeout(r, 20));
+    expect(received).not.toHaveBeenCalled();
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('已绑定的 iframe 离开文档时自动移除对应页面，仅在文档内移动时保留', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('widget');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'widget', origin: '*' });
+    await child.ready;
+    const removed: unknown[] = [];
+    main.on('peer:removed', (m) => removed.push(m.data));
+    const iframe = main.getPeer('widget')!.iframe!;
+
+    const wrapper = document.createElement('div');
+    document.body.appendChild(wrapper);
+    wrapper.appendChild(iframe);
+    await new Promise((r) => setTimeout(r, 0));
+    expect(main.getPeer('widget')).toBeDefined();
+
+    iframe.remove();
+    await vi.waitFor(() => expect(removed).toHaveLength(1));
+    expect(removed[0]).toMatchObject({ id: 'widget', reason: 'removed' });
+    expect(main.getPeers()).toEqual([]);
+
+    child.destroy();
+    main.destroy();
+  });
+});
+
+describe('IframeBridge - 绑定与 attach', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  function shadowRootIn(parent: Node = document.body) {
+    const host = document.createElement('div');
+    parent.appendChild(host);
+    return host.attachShadow({ mode: 'open' });
+  }
+
+  it('注册时在 open shadow root 内查找 iframe，元素在 shadow root 内被移除时同样清理', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    const root = shadowRootIn();
+    emulateChildFrame('shadowed', root);
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'shadowed', origin: '*' });
+    await child.ready;
+    const iframe = root.querySelector('iframe')!;
+    expect(main.getPeer('shadowed')!.iframe).toBe(iframe);
+
+    const removed = vi.fn();
+    main.on('peer:removed', removed);
+    iframe.remove();
+    await vi.waitFor(() => expect(removed).toHaveBeenCalledTimes(1));
+    expect(main.getPeers()).toEqual([]);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('文档变化时只检查变化涉及的节点，没有需要跟踪的页面与声明时停止监听', async () => {
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    emulateChildFrame('tracked');
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'tracked', origin: '*' });
+    await child.ready;
+    expect((main as any).domObserver).not.toBeNull();
+
+    const scan = vi.spyOn(Document.prototype, 'querySelectorAll');
+    const block = document.createElement('section');
+    block.innerHTML = '<div><p>unrelated</p></div>';
+    document.body.appendChild(block);
+    await new Promise((r) => setTimeout(r, 0));
+    block.remove();
+    await new Promise((r) => setTimeout(r, 0));
+    expect(scan).not.toHaveBeenCalled();
+    expect(main.getPeer('tracked')).toBeDefined();
+
+    main.unregister('tracked');
+    expect((main as any).domObserver).toBeNull();
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('attach 声明的 iframe 只接受来自该窗口的注册，注册完成后 resolve', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const violations: SecurityViolation[] = [];
+    const main = new IframeBridge({ type: 'main', origin: '*', onSecurityViolation: (v) => violations.push(v) });
+    emulateChildFrame('pinned');
+    const element = document.querySelector('[data-mock-id="pinned"]') as HTMLIFrameElement;
+    const attached = main.attach(element, { id: 'pinned', origin: '*' });
+
+    const other = makeIframe('other');
+    const impostor = other.contentWindow as any;
+    impostor.postMessage = vi.fn();
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'register', key: 'fake', sourceId: 'pinned', origin: '*', path: ['pinned'] },
+      source: impostor,
+    }));
+    await vi.waitFor(() => expect(impostor.postMessage).toHaveBeenCalledTimes(1));
+    expect(impostor.postMessage.mock.calls[0][0]).toMatchObject({ type: 'register', replyTo: 'fake' });
+    expect(violations[0]).toMatchObject({ reason: 'source-mismatch', sourceId: 'pinned', type: 'register' });
+    expect(main.getPeer('pinned')).toBeUndefined();
+
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'pinned', origin: '*' });
+    const peer = await attached;
+    expect(peer.iframe).toBe(element);
+    // 避免对 jsdom 的 Window 做深比较
+    expect(peer.window === element.contentWindow).toBe(true);
+    await child.ready;
+
+    // 已注册的页面再次 attach 时立即 resolve；unregister 撤销声明
+    expect((await main.attach(element, { id: 'pinned', origin: '*' })).id).toBe('pinned');
+    const pending = main.attach('#never', { id: 'ghost', origin: '*' });
+    expect(main.unregister('ghost')).toBe(false);
+    await expect(pending).rejects.toThrow('Page ghost was unregistered');
+    expect(() => main.attach(element, { id: 'main', origin: '*' })).toThrow();
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('选择器声明在元素出现后绑定，可匹配之后插入 shadow root 的 iframe', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const main = new IframeBridge({ type: 'main', origin: '*' });
+    let settled: PeerInfo | null = null;
+    const attached = main.attach('iframe.late-frame', { id: 'late', origin: '*' }).then((peer) => (settled = peer));
+
+    const root = shadowRootIn();
+    await new Promise((r) => setTimeout(r, 0));
+    emulateChildFrame('late', root);
+    const element = root.querySelector('iframe')!;
+    element.className = 'late-frame';
+    await new Promise((r) => setTimeout(r, 0));
+    expect(settled).toBeNull();
+
+    // 元素已匹配：来自其他窗口的同 id 注册被拒绝
+    const other = makeIframe('elsewhere');
+    const impostor = other.contentWindow as any;
+    impostor.postMessage = vi.fn();
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'register', key: 'fake', sourceId: 'late', origin: '*', path: ['late'] },
+      source: impostor,
+    }));
+    await vi.waitFor(() => expect(impostor.postMessage).toHaveBeenCalledTimes(1));
+    expect(main.getPeer('late')).toBeUndefined();
+
+    const child = new IframeBridge({ type: 'iframe', iframeId: 'late', origin: '*' });
+    await attached;
+    expect(settled!.iframe).toBe(element);
+
+    child.destroy();
+    main.destroy();
+  });
+
+  it('弹出窗口等没有 iframe 元素的页面以其窗口绑定，消息直接发往该窗口', async () => {
+    const errors: Error[] = [];
+    const main = new IframeBridge({ type: 'main', origin: '*', ports: false, onError: (e) => errors.push(e) });
+    // 模拟 window.open 返回的弹出窗口：文档中没有对应元素
+    const popup = fakeWindow();
+    const attached = main.attach(popup, { id: 'popup', origin: '*' });
+
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { type: 'register', key: 'hello', sourceId: 'popup', origin: '*', path: ['popup'] },
+      source: popup,
+    }));
+    const peer = await attached;
+    expect(peer).toMatchObject({ id: 'popup', iframe: null, window: popup });
+
+    main.send('popup', 'greet', 1);
+    const frames = popup.postMessage.mock.calls.map(([m]: [IframeMessage]) => m);
+    expect(frames.map((m: IframeMessage) => m.type)).toEqual(['register', 'message']);
+    expect(frames[1]).toMatchObject({ event: 'greet', token: main.getPeer('popup') && (main as any).registeredIframe.popup.sessionToken });
+    expect(errors).toEqual([]);
+
+    main.destroy();
+  });
+});